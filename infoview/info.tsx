@@ -1,6 +1,6 @@
 import { Location } from '../src/shared';
 import * as React from 'react';
-import { post, CopyToCommentEvent, copyToComment, PauseEvent, ContinueEvent, ToggleUpdatingEvent, global_server, ServerRestartEvent, AllMessagesEvent, currentAllMessages } from './server';
+import { post, CopyToCommentEvent, copyToComment, PauseEvent, ContinueEvent, ToggleUpdatingEvent, global_server, ServerRestartEvent, AllMessagesEvent, currentAllMessages, currentCapabilities } from './server';
 import { LocationContext, ConfigContext } from '.';
 import { Widget } from './widget';
 import { Goal } from './goal';
@@ -16,6 +16,7 @@ class OneAtATimeDispatcher {
     head: Promise<any> = new Promise((r) => r({}));
     constructor () {}
     run<T>(tb: () => Promise<T>): Promise<T> {
+        if (currentCapabilities.concurrentInfoRequests) { return tb(); }
         if (this.inflight === 0) {
             this.inflight++;
             this.head = tb().finally(() => {this.inflight--;});
@@ -172,7 +173,7 @@ export function Info(props: InfoProps): JSX.Element {
         </select>;
 
     const goalState = info && info.record && info.record.state;
-    const widget = info && info.record && info.record.widget;
+    const widget = currentCapabilities.widgets && info && info.record && info.record.widget;
     const status: InfoStatus = loading ? 'loading' : error ? 'error' : isPinned ? 'pinned' : 'cursor';
     const statusColor = statusColTable[status];
     const nothingToShow = !widget && !goalState && messages.length === 0;
@@ -1,5 +1,7 @@
 import { Server, Transport, Connection, Event, TransportError, Message } from 'lean-client-js-core';
-import { ToInfoviewMessage, FromInfoviewMessage, Config, Location, defaultConfig, PinnedLocation, InsertTextMessage } from '../src/shared';
+import { AbbreviationEngine, Translations } from '../src/abbreviations';
+import translationsJson = require('../translations.json');
+import { ToInfoviewMessage, FromInfoviewMessage, Config, Location, defaultConfig, PinnedLocation, InsertTextMessage, LeanCapabilities } from '../src/shared';
 declare const acquireVsCodeApi;
 const vscode = acquireVsCodeApi();
 
@@ -35,6 +37,27 @@ export const ConfigEvent: Event<Config> = new Event();
 ConfigEvent.on(c => {
     console.log('config updated: ', c);
 });
+
+// The translations are bundled with the info view, the leader and custom translations come with the config.
+const translations: Translations = translationsJson;
+let abbreviationEngine = new AbbreviationEngine(translations);
+ConfigEvent.on(c => {
+    abbreviationEngine = new AbbreviationEngine({ ...translations, ...c.inputCustomTranslations }, c.inputLeader);
+});
+/** The Unicode input abbreviations for text fields, if input mode is enabled. */
+export function inputAbbreviations(): AbbreviationEngine | undefined {
+    return currentConfig.inputEnabled ? abbreviationEngine : undefined;
+}
+/** What the Lean version(s) we are talking to support, until told otherwise assume a recent version. */
+export let currentCapabilities: LeanCapabilities = {
+    concurrentInfoRequests: false,
+    widgets: true,
+    widgetEffects: true,
+    holeCommands: true,
+};
+export const CapabilitiesEvent: Event<LeanCapabilities> = new Event();
+CapabilitiesEvent.on(c => currentCapabilities = c);
+
 export const SyncPinEvent: Event<{pins: PinnedLocation[]}> = new Event();
 export const PauseEvent: Event<unknown> = new Event();
 export const ContinueEvent: Event<unknown> = new Event();
@@ -66,6 +89,7 @@ window.addEventListener('message', event => { // messages from the extension
         case 'restart': ServerRestartEvent.fire(message); break;
         case 'all_messages': AllMessagesEvent.fire(message.messages); break;
         case 'toggle_all_messages': ToggleAllMessagesEvent.fire({}); break;
+        case 'capabilities': CapabilitiesEvent.fire(message.capabilities); break;
         case 'server_event': break;
         case 'server_error': break;
     }
@@ -3,7 +3,8 @@ import * as React from 'react';
 import * as ReactPopper from 'react-popper';
 import './popper.css';
 import { WidgetComponent, WidgetHtml, WidgetElement, WidgetEventRequest, WidgetIdentifier } from 'lean-client-js-node';
-import { global_server, edit, reveal, highlightPosition, clearHighlight, copyText } from './server';
+import { global_server, edit, reveal, highlightPosition, clearHighlight, copyText, currentCapabilities,
+    inputAbbreviations } from './server';
 
 import 'katex/dist/katex.min.css';
 import * as Katex from 'react-katex';
@@ -138,7 +139,7 @@ export const Widget = React.memo(({ widget, fileName }: WidgetProps) => {
         const record = update_result.record;
         if (record.status === 'success' && record.widget) {
             const effects: WidgetEffect[] | undefined = (record as any).effects;
-            if (effects) {
+            if (effects && currentCapabilities.widgetEffects) {
                 for (const effect of effects) {
                     applyWidgetEffect(widget, fileName, effect);
                 }
@@ -210,12 +211,24 @@ function ViewWidgetElement(props: {w: WidgetElement; post: (msg: any) => void})
                 args: { type: 'unit' }
             });
         } else if (((tag === 'input' && attributes.type === 'text') || tag === 'select') && k === 'onChange') {
-            new_attrs.onChange = (e) => post({
-                command: 'widget_event',
-                kind: 'onChange',
-                handler: events[k],
-                args: { type: 'string', value: e.target.value }
-            });
+            new_attrs.onChange = (e) => {
+                let value: string = e.target.value;
+                const abbreviations = tag === 'input' && inputAbbreviations();
+                if (abbreviations) {
+                    // e.g. typing `\le ` gives `≤ `, like in the editor
+                    const converted = abbreviations.convertAt(value, e.target.selectionStart ?? value.length);
+                    if (converted.text !== value) {
+                        value = e.target.value = converted.text;
+                        e.target.setSelectionRange(converted.cursor, converted.cursor);
+                    }
+                }
+                post({
+                    command: 'widget_event',
+                    kind: 'onChange',
+                    handler: events[k],
+                    args: { type: 'string', value }
+                });
+            };
         } else {
             throw new Error(`unrecognised event kind ${k} for ${tag}`);
         }
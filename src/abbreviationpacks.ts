@@ -0,0 +1,114 @@
+import loadJsonFile = require('load-json-file');
+import { commands, Disposable, EventEmitter, OutputChannel, window, workspace } from 'vscode';
+import { findConflicts, TranslationSource, Translations } from './abbreviations';
+
+/** The abbreviation file of a project, next to its `leanpkg.toml`. */
+export const ABBREVIATION_PACK_FILE = '.lean-abbreviations.json';
+
+function settingsTranslations(): Translations {
+    return workspace.getConfiguration('lean.input').get('customTranslations', {});
+}
+
+/**
+ * Loads the abbreviation files of all projects in the workspace, and reloads them when they change.
+ * They take precedence over the built-in translations, the `lean.input.customTranslations` setting
+ * takes precedence over them.
+ */
+export class AbbreviationPacks implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private loadCount = 0;
+    /** The abbreviation files, sorted by file name.  Later files take precedence. */
+    packs: TranslationSource[] = [];
+
+    private changedEmitter = new EventEmitter<void>();
+    /** Fires when the abbreviation files or the custom translations setting have changed. */
+    onDidChange = this.changedEmitter.event;
+
+    constructor() {
+        const watcher = workspace.createFileSystemWatcher('**/' + ABBREVIATION_PACK_FILE);
+        this.subscriptions.push(
+            watcher, this.changedEmitter,
+            watcher.onDidCreate(() => this.load()),
+            watcher.onDidChange(() => this.load()),
+            watcher.onDidDelete(() => this.load()),
+            workspace.onDidChangeWorkspaceFolders(() => this.load()),
+            workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('lean.input.customTranslations')) { this.changedEmitter.fire(); }
+            }),
+        );
+        void this.load();
+    }
+
+    /** The abbreviation files and the custom translations setting, in increasing order of precedence. */
+    get sources(): TranslationSource[] {
+        return [...this.packs, { name: 'lean.input.customTranslations', translations: settingsTranslations() }];
+    }
+
+    /** All custom translations, to be merged into the built-in ones. */
+    get translations(): Translations {
+        return Object.assign({}, ...this.sources.map((s) => s.translations)) as Translations;
+    }
+
+    private async load() {
+        const loadCount = ++this.loadCount;
+        const uris = (await workspace.findFiles('**/' + ABBREVIATION_PACK_FILE))
+            .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+        const packs = await Promise.all(uris.map(async (uri): Promise<TranslationSource | undefined> => {
+            const name = workspace.asRelativePath(uri);
+            try {
+                const translations: unknown = await loadJsonFile(uri.fsPath);
+                if (typeof translations !== 'object' || !translations || Array.isArray(translations) ||
+                        Object.values(translations).some((u) => u !== null && typeof u !== 'string')) {
+                    throw new Error('expected an object mapping abbreviations to strings');
+                }
+                return { name, translations: translations as Translations };
+            } catch (e) {
+                void window.showErrorMessage(`Cannot load abbreviations from ${name}: ${(e as Error).message}`);
+                return undefined;
+            }
+        }));
+        if (loadCount !== this.loadCount) { return; }
+        this.packs = packs.filter((pack) => pack);
+        this.changedEmitter.fire();
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
+
+/** Reports custom abbreviations which conflict with the built-in ones or with each other. */
+export class AbbreviationConflictChecker implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private output?: OutputChannel;
+
+    constructor(private translations: Translations, private packs: AbbreviationPacks) {
+        this.subscriptions.push(commands.registerCommand('lean.input.checkAbbreviations', () => this.check()));
+    }
+
+    private check() {
+        const leader: string = workspace.getConfiguration('lean.input').get('leader', '\\');
+        const conflicts = findConflicts(this.translations, this.packs.sources, leader);
+        if (conflicts.length === 0) {
+            void window.showInformationMessage('No conflicts between the custom abbreviations.');
+            return;
+        }
+        if (!this.output) {
+            this.output = window.createOutputChannel('Lean: Abbreviation Conflicts');
+            this.subscriptions.push(this.output);
+        }
+        this.output.clear();
+        for (const source of new Set(conflicts.map((c) => c.source))) {
+            this.output.appendLine(`${source}:`);
+            for (const conflict of conflicts.filter((c) => c.source === source)) {
+                this.output.appendLine(`  ${conflict.kind}: ${conflict.message}`);
+            }
+            this.output.appendLine('');
+        }
+        this.output.show(true);
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
@@ -0,0 +1,302 @@
+/**
+ * The Unicode input abbreviations, independent of VS Code so that the
+ * info view can use them for its text fields as well.
+ */
+
+import { tokens } from './tokenizer';
+
+export interface Translations { [abbrev: string]: string | null }
+
+/** The abbreviations for each Unicode string, the shortest first. */
+export interface ReverseTranslations { [unicode: string]: string[] }
+
+/** Marks the position of the cursor in paired translations, e.g. `⟨$CURSOR⟩`. */
+export const CURSOR_MARKER = '$CURSOR';
+
+/** The parts of a translation before and after the cursor marker, e.g. `⟨` and `⟩` for `⟨$CURSOR⟩`. */
+export function splitAtCursor(translation: string): [string, string] {
+    const i = translation.indexOf(CURSOR_MARKER);
+    return i === -1 ? [translation, ''] : [translation.slice(0, i), translation.slice(i + CURSOR_MARKER.length)];
+}
+
+export function reverseTranslationsOf(translations: Translations): ReverseTranslations {
+    const reverseTranslations: ReverseTranslations = {};
+    for (const abbrev of Object.getOwnPropertyNames(translations)) {
+        const unicode: string | null = translations[abbrev];
+        // Paired translations such as `⟨$CURSOR⟩` do not appear in the text as they are.
+        if (!unicode || unicode.includes(CURSOR_MARKER)) { continue; }
+        if (!reverseTranslations[unicode]) {
+            reverseTranslations[unicode] = [];
+        }
+        reverseTranslations[unicode].push(abbrev);
+    }
+    for (const unicode of Object.getOwnPropertyNames(reverseTranslations)) {
+        reverseTranslations[unicode].sort((a, b) => a.length - b.length);
+    }
+    return reverseTranslations;
+}
+
+export class AbbreviationEngine {
+    constructor(private translations: Translations, readonly leader: string = '\\') {}
+
+    /** The replacement of `typedAbbrev`: the translation of the abbreviation itself, or else
+     * of its shortest extension, or else of its longest prefix followed by the rest.
+     */
+    findReplacement(typedAbbrev: string): string | undefined {
+        if (typedAbbrev === '') { return undefined; }
+
+        if (this.translations[typedAbbrev]) { return this.translations[typedAbbrev]; }
+
+        let shortestExtension: string = null;
+        for (const abbrev in this.translations) {
+            if (abbrev.startsWith(typedAbbrev) && (!shortestExtension || abbrev.length < shortestExtension.length)) {
+                shortestExtension = abbrev;
+            }
+        }
+
+        if (shortestExtension) {
+            return this.translations[shortestExtension];
+        } else if (typedAbbrev) {
+            const prefixReplacement = this.findReplacement(
+                typedAbbrev.slice(0, typedAbbrev.length - 1));
+            if (prefixReplacement) {
+                return prefixReplacement + typedAbbrev.slice(typedAbbrev.length - 1);
+            }
+        }
+        return null;
+    }
+
+    /** Whether `abbrev` is an abbreviation which is not the start of a longer one, so typing more cannot change it. */
+    isComplete(abbrev: string): boolean {
+        if (!this.translations[abbrev]) { return false; }
+        for (const other in this.translations) {
+            if (other !== abbrev && other.startsWith(abbrev)) { return false; }
+        }
+        return true;
+    }
+
+    /**
+     * Converts the abbreviation just before `cursor` in `text`, for text fields without the
+     * underlined abbreviations of the editor: this is called after every change of the text.
+     * The abbreviation is converted once it is followed by whitespace or by another leader,
+     * or as soon as it cannot become a longer abbreviation.  The cursor is put between the
+     * brackets of paired translations.
+     */
+    convertAt(text: string, cursor: number, terminated = false): { text: string; cursor: number } {
+        const unchanged = { text, cursor };
+        const before = text.slice(0, cursor);
+        if (!terminated && before.endsWith(this.leader) && cursor > this.leader.length) {
+            // Typing a leader ends the previous abbreviation.
+            const converted = this.convertAt(text, cursor - this.leader.length, true);
+            return { text: converted.text, cursor: converted.cursor + this.leader.length };
+        }
+        const start = before.lastIndexOf(this.leader);
+        if (start === -1) { return unchanged; }
+
+        let abbrev = before.slice(start + this.leader.length);
+        let terminator = '';
+        if (!terminated && /\s$/.test(abbrev)) {
+            terminator = abbrev.slice(-1);
+            abbrev = abbrev.slice(0, -1);
+            terminated = true;
+        }
+        if (abbrev === '' || /\s/.test(abbrev)) { return unchanged; }
+        if (!terminated && !this.isComplete(abbrev)) { return unchanged; }
+
+        const replacement = this.findReplacement(abbrev);
+        if (!replacement) { return unchanged; }
+        const [open, close] = splitAtCursor(replacement);
+        const inserted = open + close + terminator;
+        return {
+            text: text.slice(0, start) + inserted + text.slice(cursor),
+            cursor: start + (replacement.includes(CURSOR_MARKER) ? open.length : inserted.length),
+        };
+    }
+}
+
+/** The start and end offsets of the comments, strings and characters of Lean code. */
+function literalRanges(code: string): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const token of tokens(code)) {
+        if (token.kind === 'comment' || token.kind === 'string' || token.kind === 'char') {
+            ranges.push([token.offset, token.offset + token.text.length]);
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Converts between Unicode symbols and their abbreviations in a whole text.  In Lean code,
+ * comments and string literals are kept as they are.
+ *
+ * Converting to abbreviations and back is not exact: a space is added after an abbreviation
+ * which would otherwise be read as a longer one, and leaders which were already in the text
+ * are converted as well.
+ */
+export class AbbreviationConverter {
+    private reverseTranslations: ReverseTranslations;
+    private maxAbbreviationSize: number;
+    private maxTranslationSize: number;
+
+    constructor(private translations: Translations, readonly leader: string = '\\') {
+        this.reverseTranslations = reverseTranslationsOf(translations);
+        this.maxAbbreviationSize = Math.max(0, ...Object.getOwnPropertyNames(translations).map((a) => a.length));
+        this.maxTranslationSize = Math.max(0, ...Object.getOwnPropertyNames(this.reverseTranslations).map((u) => u.length));
+    }
+
+    /** The longest abbreviation which is a prefix of `text`. */
+    private longestAbbreviation(text: string): string | undefined {
+        for (let n = Math.min(text.length, this.maxAbbreviationSize); n > 0; n--) {
+            if (this.translations[text.substr(0, n)]) { return text.substr(0, n); }
+        }
+        return undefined;
+    }
+
+    /** The longest Unicode string with an abbreviation at the start of `text`.  ASCII text is kept,
+     * even if some abbreviation produces it.
+     */
+    private unicodeAt(text: string): string | undefined {
+        for (let n = Math.min(text.length, this.maxTranslationSize); n > 0; n--) {
+            const candidate = text.substr(0, n);
+            if (this.reverseTranslations[candidate] && /[^\x00-\x7f]/.test(candidate)) { return candidate; }
+        }
+        return undefined;
+    }
+
+    /** Replaces Unicode symbols with their shortest abbreviation, e.g. `α → β` with `\a \r \b`.
+     * If the following text would continue the abbreviation, a longer abbreviation of the symbol
+     * is used, or else a space is inserted.
+     */
+    toAbbreviations(text: string, code = false): string {
+        const literals = code ? literalRanges(text) : [];
+        let result = '';
+        let i = 0;
+        while (i < text.length) {
+            if (literals.length && literals[0][0] === i) {
+                result += text.slice(i, literals[0][1]);
+                i = literals.shift()[1];
+                continue;
+            }
+            const end = literals.length ? literals[0][0] : text.length;
+            const unicode = this.unicodeAt(text.slice(i, end));
+            if (!unicode) {
+                result += text[i++];
+                continue;
+            }
+            i += unicode.length;
+            // A symbol right after this one is converted as well, and starts with the leader.
+            const next = i < end && this.unicodeAt(text.slice(i, end)) ? this.leader : text.substr(i, this.maxAbbreviationSize);
+            const abbrevs = this.reverseTranslations[unicode];
+            const abbrev = abbrevs.find((a) => this.longestAbbreviation(a + next) === a);
+            result += this.leader + (abbrev || abbrevs[0] + ' ');
+        }
+        return result;
+    }
+
+    /** Replaces every abbreviation starting with the leader by its Unicode symbol, e.g. `\a \to \b` with `α → β`.
+     * Of several abbreviations starting at the same place, the longest one is used.
+     */
+    fromAbbreviations(text: string, code = false): string {
+        const literals = code ? literalRanges(text) : [];
+        let result = '';
+        let i = 0;
+        while (i < text.length) {
+            if (literals.length && literals[0][0] === i) {
+                result += text.slice(i, literals[0][1]);
+                i = literals.shift()[1];
+                continue;
+            }
+            if (!text.startsWith(this.leader, i)) {
+                result += text[i++];
+                continue;
+            }
+            const end = literals.length ? literals[0][0] : text.length;
+            const abbrev = this.longestAbbreviation(
+                text.slice(i + this.leader.length, Math.min(end, i + this.leader.length + this.maxAbbreviationSize)));
+            if (!abbrev) {
+                result += this.leader;
+                i += this.leader.length;
+                continue;
+            }
+            result += splitAtCursor(this.translations[abbrev]).join('');
+            i += this.leader.length + abbrev.length;
+        }
+        return result;
+    }
+}
+
+/** Custom translations together with where they come from, e.g. a setting or a file name. */
+export interface TranslationSource {
+    name: string;
+    translations: Translations;
+}
+
+export interface AbbreviationConflict {
+    kind: 'shadowed' | 'unreachable' | 'duplicate';
+    abbrev: string;
+    /** The name of the source defining the abbreviation. */
+    source: string;
+    message: string;
+}
+
+/** Maximal number of other abbreviations listed for a duplicate symbol. */
+const MAX_DUPLICATES = 3;
+
+/**
+ * Checks custom translations, given in increasing order of precedence, against the built-in ones
+ * and each other.  Reports abbreviations which replace earlier ones, abbreviations which cannot
+ * be typed or which hide a longer abbreviation that typing them used to give (the shortest
+ * extension in `findReplacement`), and symbols which already have another abbreviation.
+ */
+export function findConflicts(builtins: Translations, sources: TranslationSource[],
+                              leader = '\\'): AbbreviationConflict[] {
+    const conflicts: AbbreviationConflict[] = [];
+    const all: Translations = { ...builtins };
+    const sourceOf = new Map<string, string>();
+    for (const { name, translations } of sources) {
+        for (const abbrev of Object.getOwnPropertyNames(translations)) {
+            const unicode = translations[abbrev];
+            const report = (kind: AbbreviationConflict['kind'], message: string) =>
+                conflicts.push({ kind, abbrev, source: name, message });
+            const typed = '`' + leader + abbrev + '`';
+
+            const previous = all[abbrev];
+            if (previous && previous !== unicode) {
+                const from = sourceOf.has(abbrev) ? sourceOf.get(abbrev) : 'the built-in abbreviations';
+                report('shadowed', unicode ? `${typed} replaces ${previous} from ${from} with ${unicode}` :
+                    `${typed} removes ${previous} from ${from}`);
+            }
+
+            if (abbrev === '' || /\s/.test(abbrev) || abbrev.includes(leader)) {
+                report('unreachable', `${typed} cannot be typed, since it is empty or contains whitespace or the leader`);
+            } else if (unicode && !previous) {
+                let shortestExtension: string;
+                for (const other in all) {
+                    if (all[other] && other.startsWith(abbrev) && other !== abbrev &&
+                            (!shortestExtension || other.length < shortestExtension.length)) {
+                        shortestExtension = other;
+                    }
+                }
+                if (shortestExtension && all[shortestExtension] !== unicode) {
+                    report('unreachable', `${typed} used to give ${all[shortestExtension]} ` +
+                        `(\`${leader}${shortestExtension}\`), which now has to be typed in full`);
+                }
+            }
+
+            if (unicode) {
+                const others = Object.getOwnPropertyNames(all)
+                    .filter((other) => other !== abbrev && all[other] === unicode)
+                    .sort((a, b) => a.length - b.length);
+                if (others.length) {
+                    report('duplicate', `${typed} gives ${unicode}, like ` +
+                        others.slice(0, MAX_DUPLICATES).map((a) => '`' + leader + a + '`').join(', ') +
+                        (others.length > MAX_DUPLICATES ? ` and ${others.length - MAX_DUPLICATES} more` : ''));
+                }
+            }
+
+            all[abbrev] = unicode;
+            sourceOf.set(abbrev, name);
+        }
+    }
+    return conflicts;
+}
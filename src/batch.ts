@@ -1,12 +1,13 @@
 import * as carrier from 'carrier';
 import * as child from 'child_process';
-import { OutputChannel, TextEditor, TextEditorEdit, window, workspace } from 'vscode';
-import { Server } from './server';
+import { OutputChannel, TextEditor, TextEditorEdit, window } from 'vscode';
+import { ServerRegistry } from './registry';
+import { resolveToolchain } from './toolchain';
 
 let batchOutputChannel: OutputChannel;
 
 export function batchExecuteFile(
-    server: Server,
+    registry: ServerRegistry,
     editor: TextEditor,
     edit: TextEditorEdit,
     args: any[]): void {
@@ -15,10 +16,12 @@ export function batchExecuteFile(
 
     const fileName = editor.document.fileName;
 
-    const executablePath = server.executablePath;
+    const server = registry.serverFor(fileName);
+    // Use the same toolchain as the server, so that both see the same library.
+    const toolchain = server.toolchain || resolveToolchain(server.workingDirectory);
 
-    const lean = child.spawn(executablePath, [fileName],
-        { cwd: workspace.rootPath, env: {} /* TODO(gabriel): take from server */ });
+    const lean = child.spawn(toolchain.leanExecutable, [fileName],
+        { cwd: server.workingDirectory, env: toolchain.env });
 
     batchOutputChannel.clear();
 
@@ -1,6 +1,6 @@
-import { CompletionItem, CompletionItemKind, CompletionItemProvider,
+import { CancellationToken, CompletionItem, CompletionItemKind, CompletionItemProvider,
     MarkdownString, Position, Range, TextDocument, workspace } from 'vscode';
-import { Server } from './server';
+import { ServerRequests } from './requests';
 import { isInputCompletion } from './util';
 
 const keywords = [
@@ -32,17 +32,19 @@ const keywords = [
 ];
 
 export class LeanCompletionItemProvider implements CompletionItemProvider {
-    server: Server;
+    requests: ServerRequests;
 
-    constructor(server: Server) {
-        this.server = server;
+    constructor(requests: ServerRequests) {
+        this.requests = requests;
     }
 
-    async provideCompletionItems(document: TextDocument, position: Position):
+    async provideCompletionItems(document: TextDocument, position: Position, token: CancellationToken):
             Promise<CompletionItem[]> {
         // TODO(gabriel): use LeanInputAbbreviator.active() instead
         if (!isInputCompletion(document, position)) {
-            const message = await this.server.complete(document.fileName, position.line + 1, position.character);
+            const message = await this.requests.complete('completion', document, position, token);
+            // Superseded by a newer completion request.
+            if (!message) { return null; }
             const completions: CompletionItem[] = [];
             if (message.completions) {
                 for (const completion of message.completions) {
@@ -0,0 +1,67 @@
+/**
+ * Finds the Lean 3 declarations of a file by looking at the beginnings of lines,
+ * independent of VS Code.
+ */
+
+import { RoiRange } from 'lean-client-js-node';
+
+/** The lines of a document, e.g. a `TextDocument`. */
+export interface DocumentLines {
+    readonly lineCount: number;
+    lineAt(line: number): { readonly text: string };
+}
+
+/** Lines starting a declaration, possibly after attributes and modifiers. */
+export const declarationStart = new RegExp(/^(@\[[^\]]*\]\s*)*((private|protected|noncomputable|meta|mutual)\s+)*/.source +
+    /(theorem|lemma|def|definition|example|instance|structure|class|inductive|abbreviation|axiom|constant)\b/.source);
+/** Lines which cannot belong to the preceding declaration. */
+const declarationBoundary =
+    /^(@\[|\/--|\/-!|(section|namespace|open|variables?|parameters?|universes?|attribute|run_cmd|set_option|local)\b|end\s+[\w.]|#)/;
+
+/** The name of the declaration starting at `lineText`, e.g. `foo` for `@[simp] lemma foo : ...`. */
+export function declarationName(lineText: string): string {
+    const m = /\b(theorem|lemma|def|definition|example|instance|structure|class|inductive|abbreviation|axiom|constant)\b\s*([^\s:({[⦃]*)/
+        .exec(lineText);
+    return m ? (m[2] || m[1]) : lineText.trim();
+}
+
+/** The first line of the attributes and the doc comment directly above the 0-based `line`. */
+function prefixStart(document: DocumentLines, line: number): number {
+    let begin = line;
+    while (begin > 0) {
+        const text = document.lineAt(begin - 1).text;
+        if (/^(@\[|\/--)/.test(text)) {
+            begin--;
+        } else if (/-\/\s*$/.test(text)) {
+            // The end of a comment spanning several lines, which belongs to the declaration if it is a doc comment.
+            let start = begin - 1;
+            while (start > 0 && !document.lineAt(start).text.startsWith('/-')) { start--; }
+            if (!document.lineAt(start).text.startsWith('/--')) { break; }
+            begin = start;
+        } else {
+            break;
+        }
+    }
+    return begin;
+}
+
+/** Finds the lines (1-based) of the declaration containing the 0-based `line`. This only looks at
+ * the text: a declaration starts at its attributes and doc comment, or at a keyword such as `lemma`
+ * at the beginning of a line, and ends before the next declaration or command.
+ */
+export function declarationRange(document: DocumentLines, line: number): RoiRange {
+    // The line may be in the attributes or the doc comment of the following declaration.
+    let keyword = line;
+    while (keyword < document.lineCount && !declarationStart.test(document.lineAt(keyword).text)) { keyword++; }
+    if (keyword === document.lineCount || prefixStart(document, keyword) > line) {
+        keyword = line;
+        while (keyword > 0 && !declarationStart.test(document.lineAt(keyword).text)) { keyword--; }
+    }
+    let end = Math.max(keyword, line) + 1;
+    while (end < document.lineCount) {
+        const text = document.lineAt(end).text;
+        if (declarationStart.test(text) || declarationBoundary.test(text)) { break; }
+        end++;
+    }
+    return { begin_line: prefixStart(document, keyword) + 1, end_line: end };
+}
@@ -1,16 +1,16 @@
-import { Definition, DefinitionProvider, Location, Position, TextDocument, Uri } from 'vscode';
-import { Server } from './server';
+import { CancellationToken, Definition, DefinitionProvider, Location, Position, TextDocument, Uri } from 'vscode';
+import { ServerRequests } from './requests';
 
 export class LeanDefinitionProvider implements DefinitionProvider {
-    server: Server;
+    requests: ServerRequests;
 
-    constructor(server: Server) {
-        this.server = server;
+    constructor(requests: ServerRequests) {
+        this.requests = requests;
     }
 
-    async provideDefinition(document: TextDocument, position: Position): Promise<Definition> {
-        const response = await this.server.info(document.fileName, position.line + 1, position.character);
-        if (response.record && response.record.source) {
+    async provideDefinition(document: TextDocument, position: Position, token: CancellationToken): Promise<Definition> {
+        const response = await this.requests.info('definition', document, position, token);
+        if (response && response.record && response.record.source) {
             const src = response.record.source;
             const uri = src.file ? Uri.file(src.file) : document.uri;
             return new Location(uri, new Position(src.line - 1, src.column));
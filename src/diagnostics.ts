@@ -1,7 +1,18 @@
-import { Message, Severity } from 'lean-client-js-node';
-import { Diagnostic, DiagnosticCollection, DiagnosticSeverity,
-    Disposable, languages, Position, Range, TextDocument, Uri, workspace } from 'vscode';
+import * as fs from 'fs';
+import { Message, SearchItem, Severity } from 'lean-client-js-node';
+import { delimiter, isAbsolute, relative, sep } from 'path';
+import { CodeAction, CodeActionContext, CodeActionKind, CodeActionProvider, Diagnostic, DiagnosticCollection,
+    DiagnosticRelatedInformation, DiagnosticSeverity, Disposable, DocumentFilter, languages, Location, Position,
+    Range, TextDocument, Uri, workspace, WorkspaceEdit } from 'vscode';
+import { declarationRange } from './declarations';
+import { parseLeanError } from './leanerrors';
+import { ServerRegistry } from './registry';
 import { Server } from './server';
+import { tokenize } from './tokenizer';
+import { projectSourceDirs } from './toolchain';
+
+/** VS Code's default word pattern, which is what `getWordRangeAtPosition` uses for Lean files. */
+const WORD_PATTERN = /(-?\d*\.\d\w*)|([^`~!@#$%^&*()\-=+[{\]}\\|;:'",.<>/?\s]+)/g;
 
 function toSeverity(severity: Severity): DiagnosticSeverity {
     switch (severity) {
@@ -12,51 +23,280 @@ function toSeverity(severity: Severity): DiagnosticSeverity {
     }
 }
 
-export class LeanDiagnosticsProvider implements Disposable {
+/** Notation which is only available after `open_locale`, and the locale it belongs to. */
+const localeNotations: {[notation: string]: string} = {
+    '∑': 'big_operators',
+    '∏': 'big_operators',
+    'π': 'real',
+    '√': 'real',
+    '⨁': 'direct_sum',
+    '⊗': 'tensor_product',
+    '∫': 'measure_theory',
+    '∂': 'measure_theory',
+    '∀ᶠ': 'filter',
+    '∃ᶠ': 'filter',
+    '𝓝': 'topological_space',
+};
+
+/** The `open_locale` needed for the notation starting at `pos`, if any. */
+function localeAt(lineText: string, pos: Position): string | undefined {
+    const text = lineText.substr(pos.character, 2);
+    const notation = Object.keys(localeNotations).find((n) => text.startsWith(n));
+    return notation && localeNotations[notation];
+}
+
+/** The line after the last `import`, where new imports and `open_locale`s are added. */
+function importInsertionPoint(document: TextDocument): Position {
+    let line = 0;
+    for (let i = 0; i < document.lineCount; i++) {
+        if (/^import\s/.test(document.lineAt(i).text)) { line = i + 1; }
+    }
+    return new Position(line, 0);
+}
+
+/** The module name of `fileName` for `import`, if it is in the `LEAN_PATH` of `server`, or in
+ * the source directories of its project if `LEAN_PATH` is unknown (e.g. with the elan proxy).
+ */
+function moduleOf(server: Server, fileName: string): string | undefined {
+    if (!fileName.endsWith('.lean')) { return undefined; }
+    const leanPath = server.toolchain && server.toolchain.env.LEAN_PATH;
+    const dirs = leanPath ? leanPath.split(delimiter) :
+        server.workingDirectory ? projectSourceDirs(server.workingDirectory) : [];
+    for (const dir of dirs) {
+        const rel = relative(dir, fileName);
+        if (!rel.startsWith('..') && !isAbsolute(rel)) {
+            return rel.replace(/\.lean$/, '').split(sep).join('.');
+        }
+    }
+    return undefined;
+}
+
+/** Like `TextDocument.getWordRangeAtPosition`, for a line of a file which is not open. */
+function wordRangeAt(lineText: string, pos: Position): Range | undefined {
+    const re = new RegExp(WORD_PATTERN.source, 'g');
+    let m: RegExpExecArray;
+    while ((m = re.exec(lineText)) !== null && m.index <= pos.character) {
+        if (pos.character <= m.index + m[0].length) {
+            return new Range(pos.line, m.index, pos.line, m.index + m[0].length);
+        }
+    }
+    return undefined;
+}
+
+export class LeanDiagnosticsProvider implements Disposable, CodeActionProvider {
     collection: DiagnosticCollection;
     private subscriptions: Disposable[] = [];
+    /** Search results for the declarations mentioned in messages, per server. */
+    private declarations = new Map<Server, Map<string, Promise<SearchItem[]>>>();
+    /** Lines of files which are not open, read from disk. */
+    private diskContents = new Map<string, Promise<string[] | undefined>>();
+    /** Only the latest update may publish its diagnostics. */
+    private updateCount = 0;
 
-    constructor(server: Server) {
+    constructor(private registry: ServerRegistry, documentFilter: DocumentFilter) {
         this.collection = languages.createDiagnosticCollection('lean');
         this.subscriptions.push(this.collection);
+        this.subscriptions.push(languages.registerCodeActionsProvider(documentFilter, this,
+            { providedCodeActionKinds: [CodeActionKind.QuickFix] }));
 
+        // The messages of a server are reset when it restarts,
+        // so in both cases we just collect the messages of all servers.
         this.subscriptions.push(
-            server.allMessages.on((msgs) => this.updateDiagnostics(msgs.msgs)));
+            registry.onDidChangeMessages(() => this.updateDiagnostics()));
 
-        this.subscriptions.push(server.restarted.on(() => this.updateDiagnostics([])));
+        this.subscriptions.push(registry.onDidRestart((server) => {
+            this.declarations.delete(server);
+            return this.updateDiagnostics();
+        }));
+
+        const watcher = workspace.createFileSystemWatcher('**/*.lean');
+        this.subscriptions.push(
+            watcher,
+            watcher.onDidChange((uri) => this.diskContents.delete(uri.fsPath)),
+            watcher.onDidDelete((uri) => this.diskContents.delete(uri.fsPath)),
+            workspace.onDidCloseTextDocument((doc) => this.diskContents.delete(doc.fileName)),
+        );
     }
 
-    private updateDiagnostics(messages: Message[]) {
-        const diagnosticMap = new Map<string, Diagnostic[]>();
-        const docMap = new Map<string, TextDocument>();
-
-        for (const message of messages) {
-            const line = Math.max(message.pos_line - 1, 0);
-            const pos = new Position(line, message.pos_col);
-            // Assign the diagnostic to the entire word following the info message
-            // so that code actions can be activated more easily
-            let msgDoc = docMap.get(message.file_name);
-            if (!msgDoc) {
-                msgDoc = workspace.textDocuments.find((doc) => doc.fileName === message.file_name);
-                docMap.set(message.file_name, msgDoc);
+    private readLines(fileName: string): Promise<string[] | undefined> {
+        let lines = this.diskContents.get(fileName);
+        if (!lines) {
+            lines = fs.promises.readFile(fileName).then(
+                (contents) => contents.toString().split(/\r?\n/),
+                (): string[] | undefined => undefined);
+            this.diskContents.set(fileName, lines);
+        }
+        return lines;
+    }
+
+    /** The range of a message: from its start to its end position if Lean sent one, and otherwise
+     * the entire word following the start so that code actions can be activated more easily.
+     */
+    private range(message: Message, doc?: TextDocument, lines?: string[]): Range {
+        const start = new Position(Math.max(message.pos_line - 1, 0), message.pos_col);
+        if (message.end_pos_line !== undefined && message.end_pos_col !== undefined) {
+            const end = new Position(Math.max(message.end_pos_line - 1, 0), message.end_pos_col);
+            if (end.isAfter(start)) { return new Range(start, end); }
+        }
+        let range: Range | undefined;
+        if (doc) {
+            range = doc.getWordRangeAtPosition(start);
+        } else if (lines && start.line < lines.length) {
+            range = wordRangeAt(lines[start.line], start);
+        }
+        return range || new Range(start, start);
+    }
+
+    /** Searches for the declaration `name`, caching the result until the server restarts. */
+    private findDeclarations(server: Server, name: string): Promise<SearchItem[]> {
+        let cache = this.declarations.get(server);
+        if (!cache) { this.declarations.set(server, cache = new Map<string, Promise<SearchItem[]>>()); }
+        let result = cache.get(name);
+        if (!result) {
+            const lastComponent = name.split('.').pop();
+            result = server.from('diagnostics').search(lastComponent).then(
+                (response) => response.results.filter((item) =>
+                    (item.text === name || item.text.endsWith('.' + name)) && item.source && item.source.file),
+                (): SearchItem[] => []);
+            cache.set(name, result);
+        }
+        return result;
+    }
+
+    /** Sets the code and related information of a diagnostic for a recognized error.
+     * Declarations which have not been looked up yet are added to `pending`.
+     */
+    private async enrich(diagnostic: Diagnostic, message: Message, server: Server, pending: Promise<unknown>[]) {
+        const error = parseLeanError(message.text);
+        if (!error) { return; }
+        diagnostic.code = error.code;
+        if (!server.alive()) { return; }
+        const related: DiagnosticRelatedInformation[] = [];
+        for (const name of error.names) {
+            const cached = this.declarations.get(server) && this.declarations.get(server).get(name);
+            if (!cached) {
+                pending.push(this.findDeclarations(server, name));
+                continue;
+            }
+            for (const item of (await cached).slice(0, 5)) {
+                const loc = new Location(Uri.file(item.source.file),
+                    new Position(Math.max(item.source.line - 1, 0), item.source.column));
+                const module = moduleOf(server, item.source.file);
+                related.push(new DiagnosticRelatedInformation(loc,
+                    `${item.text} is declared ${module ? `in ${module}` : 'here'}`));
             }
-            const range = msgDoc.getWordRangeAtPosition(pos) || new Range(pos, pos);
+        }
+        if (related.length) { diagnostic.relatedInformation = related; }
+    }
+
+    private async updateDiagnostics() {
+        const updateCount = ++this.updateCount;
+        // The messages of each server, which is also the one to search for their declarations.
+        const messages = ([] as { message: Message; server: Server }[]).concat(...this.registry.servers.map(
+            (server) => server.messages.map((message) => ({ message, server }))));
+        const docs = new Map<string, TextDocument>();
+        for (const doc of workspace.textDocuments) {
+            if (!doc.isClosed) { docs.set(doc.fileName, doc); }
+        }
+
+        // Files which are not open (e.g. when checking the whole project) are read from disk.
+        const diskLines = new Map<string, string[] | undefined>();
+        await Promise.all([...new Set(messages.map(({ message }) => message.file_name))]
+            .filter((fileName) => !docs.has(fileName))
+            .map(async (fileName) => diskLines.set(fileName, await this.readLines(fileName))));
+        if (updateCount !== this.updateCount) { return; }
+
+        const diagnosticMap = new Map<string, Diagnostic[]>();
+        const enriched: Promise<void>[] = [];
+        const pending: Promise<unknown>[] = [];
+        for (const { message, server } of messages) {
+            const range = this.range(message, docs.get(message.file_name), diskLines.get(message.file_name));
             let diagnostics = diagnosticMap.get(message.file_name);
             if (!diagnostics) { diagnosticMap.set(message.file_name, diagnostics = []); }
             const d = new Diagnostic(range, message.text,
                 toSeverity(message.severity));
             d.source = 'Lean';
+            enriched.push(this.enrich(d, message, server, pending));
             diagnostics.push(d);
         }
+        await Promise.all(enriched);
+        if (updateCount !== this.updateCount) { return; }
 
-        const fileNameToUri = new Map<string, Uri>();
-        for (const doc of workspace.textDocuments) {
-            fileNameToUri.set(doc.fileName, doc.uri);
+        this.collection.clear();
+        diagnosticMap.forEach((diags, file) => {
+            const doc = docs.get(file);
+            if (doc) {
+                this.collection.set(doc.uri, diags);
+            } else if (isAbsolute(file)) {
+                // Closed untitled files have no Uri anymore.
+                this.collection.set(Uri.file(file), diags);
+            }
+        });
+
+        // Show the diagnostics right away, and add the related information once the server
+        // has answered the searches, which might take a while if it is busy.
+        if (pending.length) {
+            await Promise.all(pending);
+            if (updateCount === this.updateCount) { await this.updateDiagnostics(); }
         }
+    }
 
-        this.collection.clear();
-        diagnosticMap.forEach((diags, file) =>
-            this.collection.set(fileNameToUri.get(file), diags));
+    async provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext): Promise<CodeAction[]> {
+        const actions: CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'Lean') { continue; }
+            const start = diagnostic.range.start;
+
+            const locale = localeAt(document.lineAt(start.line).text, start);
+            if (locale && diagnostic.severity === DiagnosticSeverity.Error) {
+                const action = new CodeAction(`Add \`open_locale ${locale}\``, CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                action.edit = new WorkspaceEdit();
+                action.edit.insert(document.uri, importInsertionPoint(document), `open_locale ${locale}\n`);
+                actions.push(action);
+            }
+
+            const error = parseLeanError(diagnostic.message);
+            if (!error) { continue; }
+            if (error.code === 'unknown-identifier') {
+                const server = this.registry.serverFor(document.fileName);
+                if (!server.alive()) { continue; }
+                const modules = new Set<string>();
+                for (const item of await this.findDeclarations(server, error.names[0])) {
+                    const module = moduleOf(server, item.source.file);
+                    if (!module || modules.has(module) || item.source.file === document.fileName) { continue; }
+                    modules.add(module);
+                    const action = new CodeAction(`Import ${module} (for ${item.text})`, CodeActionKind.QuickFix);
+                    action.diagnostics = [diagnostic];
+                    action.edit = new WorkspaceEdit();
+                    action.edit.insert(document.uri, importInsertionPoint(document), `import ${module}\n`);
+                    actions.push(action);
+                }
+            } else if (error.code === 'sorry') {
+                // The warning is shown at the declaration, find the `sorry`s inside of it.
+                const declaration = declarationRange(document, start.line);
+                const declarationStart = new Position(declaration.begin_line - 1, 0);
+                const offset = document.offsetAt(declarationStart);
+                const edit = new WorkspaceEdit();
+                let sorries = 0;
+                // The tokenizer skips comments and strings.
+                for (const token of tokenize(document.getText(new Range(declarationStart,
+                        new Position(declaration.end_line, 0))))) {
+                    if (token.kind !== 'identifier' || token.text !== 'sorry') { continue; }
+                    edit.replace(document.uri, new Range(document.positionAt(offset + token.offset),
+                        document.positionAt(offset + token.offset + token.text.length)), '{! !}');
+                    sorries++;
+                }
+                if (sorries) {
+                    const action = new CodeAction(sorries > 1 ? `Replace the ${sorries} \`sorry\`s with \`{! !}\` holes` :
+                        'Replace `sorry` with a `{! !}` hole', CodeActionKind.QuickFix);
+                    action.diagnostics = [diagnostic];
+                    action.edit = edit;
+                    actions.push(action);
+                }
+            }
+        }
+        return actions;
     }
 
     dispose(): void {
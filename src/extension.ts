@@ -1,22 +1,31 @@
 import semver = require('semver');
 import loadJsonFile = require('load-json-file');
-import { commands, DocumentFilter, ExtensionContext, languages, workspace, version } from 'vscode';
+import { commands, DocumentFilter, ExtensionContext, languages, window, workspace, version } from 'vscode';
+import { AbbreviationConflictChecker, AbbreviationPacks } from './abbreviationpacks';
 import { batchExecuteFile } from './batch';
 import { LeanCompletionItemProvider } from './completion';
 import { LeanDefinitionProvider } from './definition';
 import { LeanDiagnosticsProvider } from './diagnostics';
 import { DocViewProvider } from './docview';
 import { LeanHoles } from './holes';
+import { HolesView } from './holesview';
 import { TacticSuggestions } from './tacticsuggestions';
 import { LeanHoverProvider } from './hover';
 import { InfoProvider } from './infoview';
-import { inputModeLanguages, LeanInputAbbreviator, LeanInputExplanationHover } from './input';
+import { inputModeLanguages, LeanInputAbbreviator, LeanInputCompletionProvider, LeanInputConverter,
+    LeanInputExplanationHover } from './input';
 import { LeanpkgService } from './leanpkg';
+import { ServerRegistry } from './registry';
+import { ServerRequests } from './requests';
+import { ProjectChecker, ProjectCheckView } from './projectcheck';
 import { RoiManager } from './roi';
-import { LeanWorkspaceSymbolProvider } from './search';
-import { Server } from './server';
+import { RoiPins } from './roipins';
+import { LeanDeclarationSearch, LeanWorkspaceSymbolProvider } from './search';
+import { SorryView } from './sorries';
 import { LeanStatusBarItem } from './statusbar';
 import { LeanSyncService } from './sync';
+import { ProtocolTracer } from './trace';
+import { WorkspaceFiles } from './workspacefiles';
 import { LeanTaskGutter, LeanTaskMessages } from './taskgutter';
 import { StaticServer } from './staticserver';
 import { LibraryNoteLinkProvider } from './librarynote';
@@ -39,77 +48,111 @@ const LEAN_MODE: DocumentFilter = {
 export function activate(context: ExtensionContext): void {
     void configExcludeOLean();
 
-    const server = new Server();
-    context.subscriptions.push(server);
+    const tracer = new ProtocolTracer(context.logPath);
+    context.subscriptions.push(tracer);
 
-    const roiManager = new RoiManager(server, LEAN_MODE);
+    // One server per leanpkg project (or workspace folder).
+    const registry = new ServerRegistry(LEAN_MODE, tracer);
+    context.subscriptions.push(registry);
+
+    const projectChecker = new ProjectChecker(registry);
+    context.subscriptions.push(projectChecker, new ProjectCheckView(projectChecker, context));
+
+    const roiPins = new RoiPins(context, LEAN_MODE);
+    context.subscriptions.push(roiPins);
+
+    const roiManager = new RoiManager(registry, LEAN_MODE, projectChecker, roiPins);
     context.subscriptions.push(roiManager);
 
     // The sync service starts automatically starts
     // the server when it sees a *.lean file.
-    context.subscriptions.push(new LeanSyncService(server, LEAN_MODE));
+    const syncService = new LeanSyncService(registry, LEAN_MODE);
+    context.subscriptions.push(syncService);
+
+    const requests = new ServerRequests(registry, syncService);
 
     // Setup the commands.
     context.subscriptions.push(
-        commands.registerCommand('lean.restartServer', () => server.restart()),
+        commands.registerCommand('lean.restartServer', () => {
+            // Restart the server of the active project, or all of them if there is no active Lean file.
+            const editor = window.activeTextEditor;
+            if (editor && languages.match(LEAN_MODE, editor.document)) {
+                registry.serverFor(editor.document.fileName).restart();
+            } else {
+                registry.servers.forEach((server) => server.restart());
+            }
+        }),
+        commands.registerTextEditorCommand('lean.restartServerWithLimits', (editor) =>
+            registry.serverFor(editor.document.fileName).promptTemporaryLimits(editor.document.fileName)),
         commands.registerTextEditorCommand('lean.batchExecute',
-            (editor, edit, args) => { batchExecuteFile(server, editor, edit, args); }),
+            (editor, edit, args) => { batchExecuteFile(registry, editor, edit, args); }),
     );
 
-    context.subscriptions.push(new LeanDiagnosticsProvider(server));
+    context.subscriptions.push(new LeanDiagnosticsProvider(registry, LEAN_MODE));
+    const workspaceFiles = new WorkspaceFiles(LEAN_MODE);
+    context.subscriptions.push(workspaceFiles, new SorryView(registry, workspaceFiles, context));
 
     // Task messages.
     context.subscriptions.push(
-        new LeanTaskGutter(server, context),
-        new LeanTaskMessages(server),
+        new LeanTaskGutter(registry, context),
+        new LeanTaskMessages(registry),
     );
 
     // Register the support for hovering.
     context.subscriptions.push(
         languages.registerHoverProvider(LEAN_MODE,
-            new LeanHoverProvider(server)));
+            new LeanHoverProvider(requests)));
 
     // Register support for completion.
     context.subscriptions.push(
         languages.registerCompletionItemProvider(
-            LEAN_MODE, new LeanCompletionItemProvider(server), '.'));
+            LEAN_MODE, new LeanCompletionItemProvider(requests), '.'));
 
     // Register support for unicode input.
+    const abbreviationPacks = new AbbreviationPacks();
+    context.subscriptions.push(abbreviationPacks);
     void (async () => {
         const translations: any = await loadJsonFile(context.asAbsolutePath('translations.json'));
         const inputLanguages: string[] = inputModeLanguages();
         const hoverProvider =
-            languages.registerHoverProvider(inputLanguages, new LeanInputExplanationHover(translations));
+            languages.registerHoverProvider(inputLanguages,
+                new LeanInputExplanationHover(translations, abbreviationPacks));
+        const abbreviator = new LeanInputAbbreviator(translations, abbreviationPacks);
         context.subscriptions.push(
             hoverProvider,
-            new LeanInputAbbreviator(translations));
+            abbreviator,
+            new LeanInputCompletionProvider(abbreviator, inputLanguages),
+            new LeanInputConverter(translations, abbreviationPacks),
+            new AbbreviationConflictChecker(translations, abbreviationPacks),
+            new LeanDeclarationSearch(registry, abbreviator));
     })();
 
     // Register support for definition support.
     context.subscriptions.push(
         languages.registerDefinitionProvider(
-            LEAN_MODE, new LeanDefinitionProvider(server)));
+            LEAN_MODE, new LeanDefinitionProvider(requests)));
 
     // Search
     context.subscriptions.push(
         languages.registerWorkspaceSymbolProvider(
-            new LeanWorkspaceSymbolProvider(server)));
+            new LeanWorkspaceSymbolProvider(registry)));
 
     // Holes
-    context.subscriptions.push(new LeanHoles(server, LEAN_MODE));
+    context.subscriptions.push(new LeanHoles(registry, LEAN_MODE));
+    context.subscriptions.push(new HolesView(registry, workspaceFiles));
 
 
     // Add item to the status bar.
-    context.subscriptions.push(new LeanStatusBarItem(server, roiManager));
+    context.subscriptions.push(new LeanStatusBarItem(registry, roiManager));
 
     let staticServer = null;
     function waitStaticServer() {
         // Add info view: listing either the current goal state or a list of all error messages
-        const infoView = new InfoProvider(server, LEAN_MODE, context, staticServer);
+        const infoView = new InfoProvider(registry, LEAN_MODE, context, abbreviationPacks, staticServer);
         context.subscriptions.push(infoView);
         context.subscriptions.push(new DocViewProvider(staticServer));
         // Tactic suggestions
-        context.subscriptions.push(new TacticSuggestions(server, infoView, LEAN_MODE));
+        context.subscriptions.push(new TacticSuggestions(registry, infoView, LEAN_MODE));
     }
     // https://github.com/microsoft/vscode/issues/89038 fixed in 1.47
     if (semver.gte(version, '1.47.0')) {
@@ -120,7 +163,7 @@ export function activate(context: ExtensionContext): void {
         staticServer.server.on('listening', waitStaticServer);
     }
 
-    context.subscriptions.push(new LeanpkgService(server));
+    context.subscriptions.push(new LeanpkgService(registry));
 
     context.subscriptions.push(languages.registerDocumentLinkProvider(LEAN_MODE,
         new LibraryNoteLinkProvider()));
@@ -1,8 +1,9 @@
-import { HoleCommands, HoleResponse } from 'lean-client-js-core';
+import { HoleCommands, HoleReplacementAlternative, HoleResponse } from 'lean-client-js-core';
 import { CodeActionProvider, Command, commands, Diagnostic,
     DiagnosticCollection, DiagnosticSeverity, Disposable, DocumentSelector, languages,
-    Range, TextDocument, Uri, window } from 'vscode';
-import { Server } from './server';
+    Position, QuickPickItem, Range, TextDocument, TextEditorDecorationType, TextEditorRevealType, ThemeColor,
+    Uri, window, workspace, WorkspaceEdit } from 'vscode';
+import { ServerRegistry } from './registry';
 
 interface Pos { line: number; column: number }
 interface Ran { start: Pos; end: Pos }
@@ -10,28 +11,61 @@ function mkRange(r: Ran): Range {
     return new Range(r.start.line - 1, r.start.column, r.end.line - 1, r.end.column);
 }
 
+/** The range covered by `code` after inserting it at `start`. */
+function insertedRange(start: Position, code: string): Range {
+    const lines = code.split('\n');
+    const last = lines[lines.length - 1];
+    return new Range(start, lines.length === 1 ? start.translate(0, last.length) :
+        new Position(start.line + lines.length - 1, last.length));
+}
+
+/** The alternatives of a hole command which were not picked. */
+interface OtherAlternatives {
+    file: string;
+    /** The range of the code which was inserted. */
+    range: Range;
+    applied: string;
+    alternatives: HoleReplacementAlternative[];
+}
+
 export class LeanHoles implements Disposable, CodeActionProvider {
     private holes: HoleCommands[] = [];
     private collection: DiagnosticCollection;
     private subscriptions: Disposable[] = [];
 
+    /** The most recent alternatives per file, offered as "Hole: more alternatives". */
+    private otherAlternatives = new Map<string, OtherAlternatives>();
+    private previewDecoration: TextEditorDecorationType;
+
     private executeHoleCommand = 'lean.executeHole';
+    private moreAlternativesCommand = '_lean.hole.moreAlternatives';
 
-    constructor(private server: Server, private leanDocs: DocumentSelector) {
+    constructor(private registry: ServerRegistry, private leanDocs: DocumentSelector) {
         this.subscriptions.push(
             this.collection = languages.createDiagnosticCollection('lean holes'),
             commands.registerCommand(this.executeHoleCommand, (file, line, column, action) =>
                 this.execute(file, line, column, action)),
+            commands.registerCommand(this.moreAlternativesCommand, (file: string) => this.moreAlternatives(file)),
+            this.previewDecoration = window.createTextEditorDecorationType({
+                textDecoration: 'line-through',
+                opacity: '0.6',
+                after: {
+                    backgroundColor: new ThemeColor('diffEditor.insertedTextBackground'),
+                    margin: '0 0 0 0.5em',
+                },
+            }),
             languages.registerCodeActionsProvider(this.leanDocs, this),
             window.onDidChangeVisibleTextEditors(() => this.refresh()),
-            this.server.statusChanged.on(() => this.refresh()),
+            this.registry.onDidChangeStatus(() => this.refresh()),
         );
     }
 
     private async refresh() {
         const ress = await Promise.all(window.visibleTextEditors
             .filter((editor) => languages.match(this.leanDocs, editor.document))
-            .map((editor) => this.server.allHoleCommands(editor.document.fileName)));
+            .map((editor) => ({ editor, server: this.registry.serverFor(editor.document.fileName) }))
+            .filter(({ server }) => server.capabilities.holeCommands)
+            .map(({ editor, server }) => server.from('holes').allHoleCommands(editor.document.fileName)));
 
         this.holes = [];
         for (const res of ress) {
@@ -57,7 +91,7 @@ export class LeanHoles implements Disposable, CodeActionProvider {
     private async execute(file: string, line: number, column: number, action: string) {
         let res: HoleResponse;
         try {
-            res = await this.server.hole(file, line, column, action);
+            res = await this.registry.serverFor(file).from('holes').hole(file, line, column, action);
         } catch (e) {
             return window.showErrorMessage(`Error while executing hole command: ${e}`);
         }
@@ -65,19 +99,90 @@ export class LeanHoles implements Disposable, CodeActionProvider {
         if (res.message) {
             void window.showInformationMessage(res.message);
         }
-        if (res.replacements && res.replacements.alternatives) {
-            // TODO(gabriel): ask user if more than one alternative
-            for (const editor of window.visibleTextEditors) {
-                if (editor.document.fileName === file) {
-                    await editor.edit((builder) => {
-                        builder.replace(mkRange(res.replacements),
-                            res.replacements.alternatives[0].code);
-                    });
-                }
+        if (res.replacements && res.replacements.alternatives && res.replacements.alternatives.length) {
+            const replacementFile = res.replacements.file || file;
+            const range = mkRange(res.replacements);
+            const alternatives = res.replacements.alternatives;
+            const picked = await this.pickAlternative(replacementFile, range, alternatives);
+            if (!picked) { return; }
+            await this.replace(replacementFile, range, picked, alternatives);
+        }
+    }
+
+    /** Replaces `range` with the code of `picked`, remembering the other alternatives. */
+    private async replace(file: string, range: Range, picked: HoleReplacementAlternative,
+            alternatives: HoleReplacementAlternative[]) {
+        // A workspace edit also works for files which are not visible, or not even open.
+        const edit = new WorkspaceEdit();
+        edit.replace(Uri.file(file), range, picked.code);
+        if (!await workspace.applyEdit(edit)) {
+            void window.showErrorMessage('Could not apply the hole command.');
+            return;
+        }
+        const others = alternatives.filter((a) => a !== picked);
+        if (others.length) {
+            this.otherAlternatives.set(file, { file, range: insertedRange(range.start, picked.code),
+                applied: picked.code, alternatives });
+        } else {
+            this.otherAlternatives.delete(file);
+        }
+    }
+
+    /** Asks which alternative to use if there is more than one, and previews the selected one in the editor. */
+    private async pickAlternative(file: string, range: Range, alternatives: HoleReplacementAlternative[],
+            applied?: string): Promise<HoleReplacementAlternative | undefined> {
+        if (alternatives.length === 1) { return alternatives[0]; }
+
+        interface AlternativeItem extends QuickPickItem { alternative: HoleReplacementAlternative }
+        const editors = window.visibleTextEditors.filter((e) => e.document.fileName === file);
+        const quickPick = window.createQuickPick<AlternativeItem>();
+        quickPick.items = alternatives.map((alternative) => ({
+            label: alternative.code.replace(/\s+/g, ' '),
+            description: alternative.code === applied ? `${alternative.description} (current)` :
+                alternative.description,
+            // Without an editor to show the preview in, show the code with its line breaks.
+            detail: editors.length || !alternative.code.includes('\n') ? undefined : alternative.code,
+            alternative,
+        }));
+        quickPick.placeholder = `${alternatives.length} alternatives` +
+            (editors.length ? ', the selected one is previewed in the editor' : '');
+        quickPick.matchOnDescription = true;
+
+        const preview = (item?: AlternativeItem) => {
+            for (const editor of editors) {
+                editor.setDecorations(this.previewDecoration, item ? [{
+                    range,
+                    renderOptions: { after: { contentText: item.alternative.code.replace(/\s+/g, ' ') } },
+                }] : []);
+                editor.revealRange(range, TextEditorRevealType.InCenterIfOutsideViewport);
             }
+        };
+
+        try {
+            return await new Promise<HoleReplacementAlternative | undefined>((resolve) => {
+                quickPick.onDidChangeActive((items) => preview(items[0]));
+                quickPick.onDidAccept(() => {
+                    const [item] = quickPick.selectedItems;
+                    resolve(item && item.alternative);
+                });
+                quickPick.onDidHide(() => resolve(undefined));
+                quickPick.show();
+            });
+        } finally {
+            preview(undefined);
+            quickPick.dispose();
         }
     }
 
+    /** Replaces the code inserted by the last hole command in `file` with another alternative. */
+    private async moreAlternatives(file: string) {
+        const others = this.otherAlternatives.get(file);
+        if (!others) { return; }
+        const picked = await this.pickAlternative(file, others.range, others.alternatives, others.applied);
+        if (!picked || picked.code === others.applied) { return; }
+        await this.replace(file, others.range, picked, others.alternatives);
+    }
+
     provideCodeActions(document: TextDocument, range: Range): Command[] {
         const cmds: Command[] = [];
         for (const hole of this.holes) {
@@ -90,6 +195,15 @@ export class LeanHoles implements Disposable, CodeActionProvider {
                 });
             }
         }
+        const others = this.otherAlternatives.get(document.fileName);
+        // The alternatives are only offered as long as the inserted code is unchanged.
+        if (others && range.intersection(others.range) && document.getText(others.range) === others.applied) {
+            cmds.push({
+                title: 'Hole: more alternatives',
+                command: this.moreAlternativesCommand,
+                arguments: [document.fileName],
+            });
+        }
         return cmds;
     }
 
@@ -0,0 +1,223 @@
+import { HoleCommandAction, HoleCommands } from 'lean-client-js-core';
+import { commands, Disposable, EventEmitter, QuickPickItem, Range, TreeDataProvider,
+    TreeItem, TreeItemCollapsibleState, Uri, window, workspace } from 'vscode';
+import { declarationName, declarationStart } from './declarations';
+import { ServerRegistry } from './registry';
+import { Server } from './server';
+import { tokenize } from './tokenizer';
+import { FileCache, WorkspaceFiles } from './workspacefiles';
+
+/** Time to wait for further status changes before asking the server for the holes again. */
+const REFRESH_DELAY = 500;
+/** Maximal length of the hole contents shown in the view. */
+const MAX_LABEL_LENGTH = 60;
+
+interface FileHoles {
+    kind: 'file';
+    fileName: string;
+    declarations: DeclarationHoles[];
+}
+
+interface DeclarationHoles {
+    kind: 'declaration';
+    fileName: string;
+    name: string;
+    /** 0-based line of the declaration. */
+    line: number;
+    holes: HoleEntry[];
+}
+
+interface HoleEntry {
+    kind: 'hole';
+    hole: HoleCommands;
+    /** The text of the hole, e.g. `{! a + b !}`. */
+    text: string;
+}
+
+interface HoleAction {
+    kind: 'action';
+    hole: HoleCommands;
+    action: HoleCommandAction;
+}
+
+type HoleViewItem = FileHoles | DeclarationHoles | HoleEntry | HoleAction;
+
+/** Groups the holes of a file by the declaration containing them. */
+function groupHoles(fileName: string, text: string, holes: HoleCommands[]): FileHoles {
+    const lines = text.split('\n');
+    const declarations = new Map<number, DeclarationHoles>();
+    for (const hole of holes.slice().sort((a, b) => a.start.line - b.start.line || a.start.column - b.start.column)) {
+        let begin = Math.min(hole.start.line - 1, lines.length - 1);
+        while (begin > 0 && !declarationStart.test(lines[begin])) { begin--; }
+        let decl = declarations.get(begin);
+        if (!decl) {
+            declarations.set(begin, decl = { kind: 'declaration', fileName, name: declarationName(lines[begin] || ''),
+                line: begin, holes: [] });
+        }
+        const holeText = lines.slice(hole.start.line - 1, hole.end.line).join('\n');
+        const lastLineStart = holeText.length - (lines[hole.end.line - 1] || '').length;
+        let label = holeText.slice(hole.start.column, lastLineStart + hole.end.column).replace(/\s+/g, ' ');
+        if (label.length > MAX_LABEL_LENGTH) { label = label.slice(0, MAX_LABEL_LENGTH - 1) + '…'; }
+        decl.holes.push({ kind: 'hole', hole, text: label });
+    }
+    return { kind: 'file', fileName, declarations: [...declarations.values()] };
+}
+
+/**
+ * Lists the `{! !}` holes of all open and project files in the "Lean Holes" view,
+ * with their hole commands.  The holes of a project are updated when its server
+ * becomes idle, but only once the view has been opened.
+ */
+export class HolesView implements TreeDataProvider<HoleViewItem>, Disposable {
+    private subscriptions: Disposable[] = [];
+    private changedEmitter = new EventEmitter<HoleViewItem | undefined>();
+    onDidChangeTreeData = this.changedEmitter.event;
+
+    /** Whether the view has been opened, only then the holes are updated. */
+    private opened = false;
+    /** Whether each file contains a `{!` outside of comments and strings. */
+    private hasHoles: FileCache<boolean>;
+    private files = new Map<string, FileHoles>();
+    private refreshTimers = new Map<Server, NodeJS.Timer>();
+    private refreshCounts = new Map<Server, number>();
+
+    constructor(private registry: ServerRegistry, private workspaceFiles: WorkspaceFiles) {
+        this.hasHoles = new FileCache(workspaceFiles);
+        this.subscriptions.push(
+            this.changedEmitter,
+            window.registerTreeDataProvider('leanHoles', this),
+            registry.onDidChangeStatus((server) => {
+                const status = server.statusChanged.currentValue;
+                if (status && !status.isRunning) { this.scheduleRefresh(server); }
+            }),
+            commands.registerCommand('_lean.holes.reveal', (fileName: string, line: number, column: number) =>
+                this.reveal(fileName, line, column)),
+            commands.registerCommand('lean.holes.refresh', () => this.refreshAll()),
+            commands.registerCommand('lean.holes.pick', (item: HoleEntry) => this.pick(item)),
+            commands.registerCommand('lean.holes.execute', (item: HoleAction) => this.execute(item.hole, item.action)),
+        );
+        void commands.executeCommand('setContext', 'lean.holes', true);
+    }
+
+    private scheduleRefresh(server: Server) {
+        if (!this.opened) { return; }
+        clearTimeout(this.refreshTimers.get(server));
+        this.refreshTimers.set(server, setTimeout(() => {
+            this.refreshTimers.delete(server);
+            void this.refresh(server);
+        }, REFRESH_DELAY));
+    }
+
+    private async refreshAll() {
+        this.opened = true;
+        const fileNames = await this.workspaceFiles.leanFiles();
+        const servers = new Set(fileNames.map((f) => this.registry.serverFor(f)));
+        await Promise.all([...servers].map((server) => this.refresh(server)));
+    }
+
+    /** Asks `server` for the holes of all its files which contain `{!`. */
+    private async refresh(server: Server) {
+        const refreshCount = (this.refreshCounts.get(server) || 0) + 1;
+        this.refreshCounts.set(server, refreshCount);
+        const fileNames = (await this.workspaceFiles.leanFiles()).filter((f) => this.registry.serverFor(f) === server);
+
+        const files = await Promise.all(fileNames.map(async (fileName) => {
+            // Holes in comments do not count.
+            const hasHoles = await this.hasHoles.get(fileName, (contents) => !!contents && contents.includes('{!') &&
+                tokenize(contents).some((token) => token.kind === 'open' && token.text === '{!'));
+            if (!hasHoles || !server.alive() || !server.capabilities.holeCommands) { return undefined; }
+            const text = await this.workspaceFiles.readText(fileName);
+            try {
+                const res = await server.from('holes').allHoleCommands(fileName);
+                return res.holes.length ? groupHoles(fileName, text, res.holes) : undefined;
+            } catch (e) {
+                return undefined;
+            }
+        }));
+        if (refreshCount !== this.refreshCounts.get(server)) { return; }
+
+        for (const fileName of fileNames) { this.files.delete(fileName); }
+        for (const file of files) {
+            if (file) { this.files.set(file.fileName, file); }
+        }
+        this.changedEmitter.fire(undefined);
+    }
+
+    getChildren(element?: HoleViewItem): HoleViewItem[] {
+        if (!element) {
+            if (!this.opened) { void this.refreshAll(); }
+            return [...this.files.values()].sort((a, b) => a.fileName.localeCompare(b.fileName));
+        }
+        switch (element.kind) {
+            case 'file': return element.declarations;
+            case 'declaration': return element.holes;
+            case 'hole': return element.hole.results.map((action): HoleAction =>
+                ({ kind: 'action', hole: element.hole, action }));
+            default: return [];
+        }
+    }
+
+    getTreeItem(element: HoleViewItem): TreeItem {
+        switch (element.kind) {
+            case 'file': {
+                const item = new TreeItem(workspace.asRelativePath(element.fileName),
+                    TreeItemCollapsibleState.Expanded);
+                const holes = element.declarations.reduce((n, d) => n + d.holes.length, 0);
+                item.description = `${holes} hole${holes === 1 ? '' : 's'}`;
+                item.resourceUri = Uri.file(element.fileName);
+                item.tooltip = element.fileName;
+                return item;
+            }
+            case 'declaration': {
+                const item = new TreeItem(element.name, TreeItemCollapsibleState.Expanded);
+                item.command = {
+                    command: '_lean.holes.reveal',
+                    title: 'Go to declaration',
+                    arguments: [element.fileName, element.line, 0],
+                };
+                return item;
+            }
+            case 'hole': {
+                const item = new TreeItem(element.text, TreeItemCollapsibleState.Collapsed);
+                item.description = element.hole.results.map((a) => a.name).join(' / ');
+                item.contextValue = 'leanHole';
+                item.command = {
+                    command: '_lean.holes.reveal',
+                    title: 'Go to hole',
+                    arguments: [element.hole.file, element.hole.start.line - 1, element.hole.start.column],
+                };
+                return item;
+            }
+            case 'action': {
+                const item = new TreeItem(element.action.name);
+                item.description = element.action.description;
+                item.tooltip = element.action.description;
+                item.contextValue = 'leanHoleAction';
+                return item;
+            }
+        }
+    }
+
+    private async reveal(fileName: string, line: number, column: number) {
+        await window.showTextDocument(Uri.file(fileName), { selection: new Range(line, column, line, column) });
+    }
+
+    private async pick(item: HoleEntry) {
+        interface ActionItem extends QuickPickItem { action: HoleCommandAction }
+        const picked = await window.showQuickPick<ActionItem>(item.hole.results.map((action) => ({
+            label: action.name,
+            description: action.description,
+            action,
+        })), { placeHolder: `Hole command for ${item.text}` });
+        if (picked) { await this.execute(item.hole, picked.action); }
+    }
+
+    private async execute(hole: HoleCommands, action: HoleCommandAction) {
+        await commands.executeCommand('lean.executeHole', hole.file, hole.start.line, hole.start.column, action.name);
+    }
+
+    dispose(): void {
+        for (const timer of this.refreshTimers.values()) { clearTimeout(timer); }
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
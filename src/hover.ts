@@ -1,16 +1,16 @@
-import { Hover, HoverProvider, MarkdownString, Position, Range, TextDocument } from 'vscode';
-import { Server } from './server';
+import { CancellationToken, Hover, HoverProvider, MarkdownString, Position, Range, TextDocument } from 'vscode';
+import { ServerRequests } from './requests';
 
 export class LeanHoverProvider implements HoverProvider {
-    server: Server;
+    requests: ServerRequests;
 
-    constructor(server: Server) {
-        this.server = server;
+    constructor(requests: ServerRequests) {
+        this.requests = requests;
     }
 
-    async provideHover(document: TextDocument, position: Position): Promise<Hover> {
-        const response = await this.server.info(document.fileName, position.line + 1, position.character);
-        if (response.record) {
+    async provideHover(document: TextDocument, position: Position, token: CancellationToken): Promise<Hover> {
+        const response = await this.requests.info('hover', document, position, token);
+        if (response && response.record) {
             const contents: MarkdownString[] = [];
             const name = response.record['full-id'] || response.record.text;
             if (name) {
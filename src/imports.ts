@@ -0,0 +1,76 @@
+import * as path from 'path';
+import { tokens } from './tokenizer';
+
+/** Keywords of commands which can follow the imports, and which end them. */
+const commandKeywords = ['open', 'open_locale', 'universe', 'universes', 'variable', 'variables', 'parameter',
+    'parameters', 'namespace', 'section', 'noncomputable', 'set_option', 'local', 'attribute', 'run_cmd',
+    'meta', 'private', 'protected', 'def', 'definition', 'theorem', 'lemma', 'example', 'instance', 'structure',
+    'class', 'inductive', 'axiom', 'constant', 'notation', 'infix', 'infixl', 'infixr', 'prefix', 'postfix',
+    'precedence', 'end', 'export', 'prelude', 'mutual', 'abbreviation', 'library_note', 'localized'];
+
+/** The modules imported by a Lean 3 file, e.g. `data.nat.basic` or `..foo` for relative imports.
+ * Imports have to come first, possibly after comments and `prelude`.
+ */
+export function importsOf(text: string): string[] {
+    const imports: string[] = [];
+    let inImport = false;
+    // Relative imports start with dots, which are symbols for the tokenizer.
+    let dots = '';
+    for (const token of tokens(text)) {
+        if (token.kind === 'comment' || token.kind === 'newline') { continue; }
+        if (token.kind === 'identifier' && token.text === 'prelude' && !inImport) {
+            continue;
+        } else if (token.kind === 'identifier' && token.text === 'import') {
+            inImport = true;
+        } else if (inImport && token.kind === 'symbol' && /^\.+$/.test(token.text) && !dots) {
+            dots = token.text;
+        } else if (inImport && token.kind === 'identifier' && !commandKeywords.includes(token.text)) {
+            imports.push(dots + token.text);
+            dots = '';
+        } else {
+            break;
+        }
+    }
+    return imports;
+}
+
+/** The files imported by `fileName`, among `fileNames`. */
+function importedFiles(fileName: string, text: string, fileNames: string[],
+                       byModulePath: Map<string, string[]>): string[] {
+    return [].concat(...importsOf(text).map((imp): string[] => {
+        const relative = /^(\.+)(.*)$/.exec(imp);
+        if (relative) {
+            // `.foo` is in the same directory, `..foo` in the parent directory, etc.
+            const dir = path.resolve(path.dirname(fileName), ...Array(relative[1].length - 1).fill('..'));
+            const file = path.join(dir, ...relative[2].split('.')) + '.lean';
+            return fileNames.includes(file) ? [file] : [];
+        }
+        return byModulePath.get(imp.split('.').join('/')) || [];
+    }));
+}
+
+/** Sorts `fileNames` such that every file comes after the files it imports, given the texts of the files.
+ * Files in an import cycle are kept in the order of the cycle.
+ */
+export function dependencyOrder(fileNames: string[], textOf: (fileName: string) => string): string[] {
+    const byModulePath = new Map<string, string[]>();
+    for (const fileName of fileNames) {
+        const parts = fileName.replace(/\.lean$/, '').split(path.sep);
+        // `import a.b` may refer to any file ending in `a/b.lean`.
+        for (let i = parts.length - 1; i >= 0; i--) {
+            const modulePath = parts.slice(i).join('/');
+            byModulePath.set(modulePath, (byModulePath.get(modulePath) || []).concat([fileName]));
+        }
+    }
+
+    const result: string[] = [];
+    const visited = new Set<string>();
+    const visit = (fileName: string) => {
+        if (visited.has(fileName)) { return; }
+        visited.add(fileName);
+        for (const dep of importedFiles(fileName, textOf(fileName), fileNames, byModulePath)) { visit(dep); }
+        result.push(fileName);
+    };
+    fileNames.forEach(visit);
+    return result;
+}
@@ -7,14 +7,18 @@ import {
     TextEditorDecorationType, TextEditorRevealType,
     Uri, ViewColumn, WebviewPanel, window, workspace, env,
 } from 'vscode';
+import { AbbreviationPacks } from './abbreviationpacks';
+import { ServerRegistry } from './registry';
 import { Server } from './server';
 import { ToInfoviewMessage, FromInfoviewMessage, PinnedLocation, InsertTextMessage, ServerRequestMessage, RevealMessage, HoverPositionMessage, locationEq, Location, InfoViewTacticStateFilter } from './shared'
 import { StaticServer } from './staticserver';
+import { tacticStart } from './tokenizer';
 
 export class InfoProvider implements Disposable {
     /** Instance of the panel. */
     private webviewPanel: WebviewPanel;
-    private proxyConnection: Connection;
+    /** One connection per Lean server, used to forward requests from the webview. */
+    private proxyConnections = new Map<Server, Connection>();
     private subscriptions: Disposable[] = [];
 
     private statusBarItem: StatusBarItem;
@@ -28,7 +32,8 @@ export class InfoProvider implements Disposable {
 
     private hoverDecorationType: TextEditorDecorationType;
 
-    constructor(private server: Server, private leanDocs: DocumentSelector, private context: ExtensionContext, private staticServer?: StaticServer) {
+    constructor(private registry: ServerRegistry, private leanDocs: DocumentSelector, private context: ExtensionContext,
+                private abbreviationPacks: AbbreviationPacks, private staticServer?: StaticServer) {
 
         this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Right, 1000);
 
@@ -37,12 +42,17 @@ export class InfoProvider implements Disposable {
             border: '3px solid red',
         });
         this.updateStylesheet();
-        this.makeProxyConnection();
+        for (const server of this.registry.servers) {
+            this.makeProxyConnection(server);
+        }
         this.subscriptions.push(
-            this.server.restarted.on(async () => {
+            this.registry.onDidAddServer((server) => this.makeProxyConnection(server)),
+            this.registry.onDidRestart(async () => {
                 await this.autoOpen();
                 await this.postMessage({command: 'restart'});
             }),
+            this.registry.onDidChangeCapabilities(() => this.sendCapabilities()),
+            abbreviationPacks.onDidChange(() => this.sendConfig()),
             window.onDidChangeActiveTextEditor(() => this.sendPosition()),
             window.onDidChangeTextEditorSelection(() => this.sendPosition()),
             workspace.onDidChangeConfiguration(async (e) => {
@@ -103,35 +113,49 @@ export class InfoProvider implements Disposable {
             commands.registerCommand('lean.infoView.toggleUpdating', () => this.postMessage({ command: 'toggle_updating' })),
             commands.registerTextEditorCommand('lean.infoView.toggleStickyPosition', () => this.postMessage({ command: 'toggle_pin' })),
         );
-        if (this.server.alive()) {
+        if (this.registry.servers.some((server) => server.alive())) {
             void this.autoOpen();
         }
     }
 
-    private makeProxyConnection() {
-        if (this.proxyConnection) {
-            this.proxyConnection.dispose();
+    private makeProxyConnection(server: Server) {
+        if (this.proxyConnections.has(server)) {
+            this.proxyConnections.get(server).dispose();
         }
-        this.proxyConnection = this.server.makeProxyTransport().connect();
+        const proxyConnection = server.from('infoview').makeProxyTransport().connect();
+        this.proxyConnections.set(server, proxyConnection);
         this.subscriptions.push(
-            this.proxyConnection.error.on(e =>
+            proxyConnection.error.on(e =>
                 this.postMessage({
                     command: 'server_error',
                     payload: JSON.stringify(e)
                 })
             ),
-            this.proxyConnection.jsonMessage.on(e =>
+            proxyConnection.jsonMessage.on(e =>
                 this.postMessage({
                     command: 'server_event',
-                    payload: JSON.stringify(e)
+                    payload: JSON.stringify(this.mergeServerEvent(e))
                 })
             )
         );
 
     }
 
+    /** The webview only knows a single server, so notifications about
+     * messages and tasks are combined from all servers before forwarding them.
+     */
+    private mergeServerEvent(e: any): any {
+        if (e.response === 'all_messages') {
+            return { ...e, msgs: this.registry.messages };
+        } else if (e.response === 'current_tasks') {
+            const status = this.registry.status;
+            return { ...e, is_running: status.isRunning, tasks: status.tasks };
+        }
+        return e;
+    }
+
     dispose(): void {
-        this.proxyConnection.dispose();
+        this.proxyConnections.forEach((conn) => conn.dispose());
         for (const s of this.subscriptions) { s.dispose(); }
     }
 
@@ -178,7 +202,8 @@ export class InfoProvider implements Disposable {
         }
         if (loc !== null) { await this.postMessage({ command: 'position', loc }); }
         await this.sendConfig();
-        await this.postMessage({command: 'all_messages', messages: this.server.messages});
+        await this.sendCapabilities();
+        await this.postMessage({command: 'all_messages', messages: this.registry.messages});
     }
     /** Handle a message incoming from the webview. */
     private async handleMessage(message: FromInfoviewMessage) {
@@ -207,12 +232,20 @@ export class InfoProvider implements Disposable {
                 return;
             case 'request_config':
                 await this.sendConfig();
-                await this.postMessage({command: 'all_messages', messages: this.server.messages});
+                await this.sendCapabilities();
+                await this.postMessage({command: 'all_messages', messages: this.registry.messages});
                 return;
         }
     }
     private handleServerRequest(message: ServerRequestMessage) {
-        this.proxyConnection.send(JSON.parse(message.payload));
+        const request = JSON.parse(message.payload) as { file_name?: string };
+        const server = request.file_name ?
+            this.registry.serverFor(request.file_name) : this.registry.activeServer();
+        if (!server) { return; }
+        if (!this.proxyConnections.has(server)) {
+            this.makeProxyConnection(server);
+        }
+        this.proxyConnections.get(server).send(request);
     }
     private async handleInsertText(message: InsertTextMessage) {
         let editor: TextEditor = null;
@@ -225,9 +258,12 @@ export class InfoProvider implements Disposable {
             }
         }
         if (!editor) {return; }
-        const pos = message.loc ? this.positionOfLocation(message.loc) : editor.selection.active;
+        let pos = message.loc ? this.positionOfLocation(message.loc) : editor.selection.active;
         const insert_type = message.insert_type ?? 'relative';
         if (insert_type === 'relative') {
+            // insert before the tactic at the position, which might start on an earlier line
+            const text = editor.document.getText();
+            pos = editor.document.positionAt(tacticStart(text, editor.document.offsetAt(pos)));
             // in this case, assume that we actually want to insert at the same
             // indentation level as the neighboring text
             const current_selection_range = editor.selection;
@@ -269,11 +305,18 @@ export class InfoProvider implements Disposable {
                 infoViewTacticStateFilters: (workspace.getConfiguration('lean').get('infoViewTacticStateFilters', []) as InfoViewTacticStateFilter[]),
                 filterIndex: workspace.getConfiguration('lean').get('infoViewFilterIndex', -1),
                 infoViewAllErrorsOnLine: workspace.getConfiguration('lean').get('infoViewAllErrorsOnLine', false),
-                infoViewAutoOpenShowGoal: workspace.getConfiguration('lean').get('infoViewAutoOpenShowGoal', true)
+                infoViewAutoOpenShowGoal: workspace.getConfiguration('lean').get('infoViewAutoOpenShowGoal', true),
+                inputEnabled: workspace.getConfiguration('lean.input').get('enabled', true),
+                inputLeader: workspace.getConfiguration('lean.input').get('leader', '\\'),
+                inputCustomTranslations: this.abbreviationPacks.translations,
             },
         });
     }
 
+    private async sendCapabilities() {
+        await this.postMessage({command: 'capabilities', capabilities: this.registry.capabilities});
+    }
+
     private async postMessage(msg: ToInfoviewMessage): Promise<boolean> {
         if (this.webviewPanel) {
             return this.webviewPanel.webview.postMessage(msg);
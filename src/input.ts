@@ -1,9 +1,10 @@
-import { CancellationToken, commands, Disposable, Hover,
-    HoverProvider, languages, Position, Range, Selection, TextDocument,
-    TextDocumentChangeEvent, TextDocumentContentChangeEvent, TextEditor, TextEditorDecorationType,
+import { CancellationToken, commands, CompletionItem, CompletionItemKind, CompletionItemProvider, CompletionList,
+    Disposable, DocumentSelector, Hover, HoverProvider, languages, Position, Range, Selection, SnippetString,
+    TextDocument, TextDocumentChangeEvent, TextDocumentContentChangeEvent, TextEditor, TextEditorDecorationType,
     TextEditorSelectionChangeEvent, window, workspace } from 'vscode';
-
-export interface Translations { [abbrev: string]: string | null }
+import { AbbreviationConverter, AbbreviationEngine, CURSOR_MARKER, ReverseTranslations, reverseTranslationsOf,
+    splitAtCursor, Translations } from './abbreviations';
+import { AbbreviationPacks } from './abbreviationpacks';
 
 function inputModeEnabled(): boolean {
     return workspace.getConfiguration('lean.input').get('enabled', true);
@@ -17,42 +18,29 @@ export function inputModeLanguages(): string[] {
     return workspace.getConfiguration('lean.input').get('languages', ['lean']);
 }
 
-function inputModeCustomTranslations(): Translations {
-    return workspace.getConfiguration('lean.input').get('customTranslations', {});
-}
+/** Number of recently used abbreviations which are ranked first in the completion list. */
+const MAX_RECENT_ABBREVIATIONS = 50;
 
 /** Adds hover behaviour for getting translations of unicode characters. Eg: "Type ⊓ using \glb or \sqcap"  */
 export class LeanInputExplanationHover implements HoverProvider, Disposable {
     private leader: string;
-    private reverseTranslations: { [unicode: string]: string[] };
+    private reverseTranslations: ReverseTranslations;
     private maxTranslationSize: number;
 
     private subscriptions: Disposable[] = [];
 
-    constructor(private translations: Translations) {
+    constructor(private translations: Translations, private packs: AbbreviationPacks) {
         this.readConfig();
-        this.subscriptions.push(workspace.onDidChangeConfiguration(() => this.readConfig()));
+        this.subscriptions.push(
+            workspace.onDidChangeConfiguration(() => this.readConfig()),
+            packs.onDidChange(() => this.readConfig()),
+        );
     }
 
     private readConfig() {
         this.leader = inputModeLeader();
-        const customTranslations = inputModeCustomTranslations();
-
-        this.maxTranslationSize = 0;
-        this.reverseTranslations = {};
-        const allTranslations = { ...this.translations, ...customTranslations };
-        for (const abbrev of Object.getOwnPropertyNames(allTranslations)) {
-            const unicode: string | null = allTranslations[abbrev];
-            if (!unicode) { continue; }
-            if (!this.reverseTranslations[unicode]) {
-                this.reverseTranslations[unicode] = [];
-            }
-            this.reverseTranslations[unicode].push(abbrev);
-            this.maxTranslationSize = Math.max(this.maxTranslationSize, unicode.length);
-        }
-        for (const unicode of Object.getOwnPropertyNames(this.reverseTranslations)) {
-            this.reverseTranslations[unicode].sort((a, b) => a.length - b.length);
-        }
+        this.reverseTranslations = reverseTranslationsOf({ ...this.translations, ...this.packs.translations });
+        this.maxTranslationSize = Math.max(0, ...Object.getOwnPropertyNames(this.reverseTranslations).map((u) => u.length));
     }
 
     provideHover(document: TextDocument, pos: Position, token: CancellationToken): Hover | undefined {
@@ -78,66 +66,115 @@ export class LeanInputExplanationHover implements HoverProvider, Disposable {
         for (const s of this.subscriptions) { s.dispose(); }
     }
 }
+/** The replacement of an abbreviation, with offsets in the document before the replacement. */
+interface Conversion {
+    range: Range;
+    start: number;
+    end: number;
+    text: string;
+    /** The selection after the replacement relative to its start, for paired translations. */
+    selection?: [number, number];
+}
+
 /* Each editor has their own abbreviation handler. */
 class TextEditorAbbrevHandler {
     ranges: Range[] = [];
+    /** The text which was selected when the abbreviation in a range was typed, which paired translations surround. */
+    private wrappedTexts = new Map<Range, string>();
+    /** The last non-empty selections, since typing the leader over a selection removes the selected text. */
+    private selectedTexts: { range: Range; text: string }[] = [];
 
     constructor(public editor: TextEditor, private abbreviator: LeanInputAbbreviator) {}
 
-    private async updateRanges(ranges: Range[]) {
+    private async updateRanges(ranges: Range[], wrappedTexts = new Map<Range, string>()) {
         this.ranges = ranges;
+        this.wrappedTexts = wrappedTexts;
 
         this.editor.setDecorations(this.abbreviator.decorationType, ranges);
         await this.abbreviator.updateInputActive();
 
-        // HACK: support \{{}} and \[[]]
-        const hackyReplacements: {[input: string]: string} = {
-            [this.leader + '{{}}']: '⦃⦄',
-            [this.leader + '[[]]']: '⟦⟧',
-            [this.leader + '<>']: '⟨⟩',
-            [this.leader + '([])'] : '⟮⟯',
-            [this.leader + 'f<>']: '‹›',
-            [this.leader + 'f<<>>']: '«»',
-            [this.leader + '[--]']: '⁅⁆',
-        };
-
-        await this.editor.edit((builder) => {
-            ranges.forEach(range => {
-                const replacement = hackyReplacements[this.editor.document.getText(range)];
-
-                if(replacement) {
-                    builder.replace(range, replacement);
-                    const pos = range.start.translate(0, 1);
-                    this.editor.selection = new Selection(pos, pos);
-                }
-            })
-        })
+        // Paired abbreviations such as `\<>` are converted as soon as they are complete.
+        const pairs = ranges.filter((range) => {
+            const text = this.editor.document.getText(range);
+            const abbreviation = text.slice(this.leader.length);
+            const translation = this.abbreviator.allTranslations[abbreviation];
+            return text.startsWith(this.leader) && translation && translation.includes(CURSOR_MARKER) &&
+                this.abbreviator.engine.isComplete(abbreviation);
+        });
+        if (pairs.length > 0) {
+            await this.convertRanges(false, pairs);
+        }
     }
 
     get leader(): string { return this.abbreviator.leader; }
     get enabled(): boolean { return this.abbreviator.enabled; }
 
-    async convertRanges(trailingLeader: boolean = false) {
-        const newRanges : Range[] = [];
+    /**
+     * Replaces the abbreviations in `toConvert` (by default all ranges) by their translations.
+     * Paired translations surround the text which was selected when the abbreviation was typed,
+     * and put the cursor between the brackets, or select the surrounded text.
+     */
+    async convertRanges(trailingLeader: boolean = false, toConvert: Range[] = this.ranges) {
+        const document = this.editor.document;
+        const conversions = toConvert.map((range): Conversion => {
+            const toReplace = document.getText(range);
+            const conversion: Conversion = {
+                range, start: document.offsetAt(range.start), end: document.offsetAt(range.end), text: toReplace };
+
+            const abbreviation = toReplace.slice(this.leader.length);
+            const replacement = toReplace.startsWith(this.leader) && this.abbreviator.findReplacement(abbreviation);
+            if (replacement) {
+                this.abbreviator.recordUse(abbreviation);
+                const [open, close] = splitAtCursor(replacement);
+                const wrapped = this.wrappedTexts.get(range) || '';
+                conversion.text = replacement.includes(CURSOR_MARKER) ? open + wrapped + close : replacement;
+                if (replacement.includes(CURSOR_MARKER) && !trailingLeader) {
+                    conversion.selection = [open.length, open.length + wrapped.length];
+                }
+            }
+            return conversion;
+        });
+
+        // Remember everything by offsets, which are shifted by the replacements before them.
+        const shift = (offset: number) => conversions.filter((c) => c.end <= offset)
+            .reduce((n, c) => n + c.text.length - (c.end - c.start), offset);
+        const otherRanges = this.ranges.filter((range) => !toConvert.includes(range))
+            .map((range) => ({ range, start: document.offsetAt(range.start), end: document.offsetAt(range.end) }));
+        const otherSelections = this.editor.selections
+            .filter((sel) => conversions.every((c) => !c.range.contains(sel)))
+            .map((sel) => [document.offsetAt(sel.anchor), document.offsetAt(sel.active)]);
 
         await this.editor.edit((builder) => {
-            this.ranges.forEach(range => {
-                const toReplace = this.editor.document.getText(range);
-
-                const abbreviation = toReplace.slice(1);
-                const replacement = toReplace.startsWith(this.leader) && this.abbreviator.findReplacement(abbreviation);
-
-                if(replacement) builder.replace(range, replacement)
-                if(trailingLeader) {
-                    newRanges.push(new Range(
-                        range.end.translate(0, replacement.length - (toReplace.length + 1)),
-                        range.end.translate(0, replacement.length - toReplace.length)
-                    ))
-                }
-            })
-        })
+            for (const c of conversions) {
+                if (c.text !== document.getText(c.range)) { builder.replace(c.range, c.text); }
+            }
+        });
+
+        const newRanges: Range[] = [];
+        const wrappedTexts = new Map<Range, string>();
+        for (const { range, start, end } of otherRanges) {
+            const newRange = new Range(document.positionAt(shift(start)), document.positionAt(shift(end)));
+            newRanges.push(newRange);
+            if (this.wrappedTexts.has(range)) { wrappedTexts.set(newRange, this.wrappedTexts.get(range)); }
+        }
+        if (trailingLeader) {
+            // The leader which ended the abbreviation starts the next one.
+            for (const c of conversions) {
+                const end = shift(c.start) + c.text.length;
+                newRanges.push(new Range(document.positionAt(end - this.leader.length), document.positionAt(end)));
+            }
+        }
+
+        if (conversions.some((c) => c.selection)) {
+            this.editor.selections = [
+                ...conversions.map((c) => c.selection ?
+                    c.selection.map((offset) => shift(c.start) + offset) :
+                    [shift(c.end), shift(c.end)]),
+                ...otherSelections.map((sel) => sel.map(shift)),
+            ].map(([anchor, active]) => new Selection(document.positionAt(anchor), document.positionAt(active)));
+        }
 
-        await this.updateRanges(newRanges);
+        await this.updateRanges(newRanges, wrappedTexts);
     }
 
     async deleteRanges() {
@@ -158,12 +195,13 @@ class TextEditorAbbrevHandler {
         }
 
         const ranges : Range[] = []
+        const wrappedTexts = new Map<Range, string>();
         let isInsert : boolean
 
         // double leader character (e.g. to type \n)
         if(changes.every(change => {
             const range = this.rangeAdjacentToChange(change);
-            return change.text === this.leader && range && (range.end.character - range.start.character) === 1;
+            return change.text === this.leader && range && (range.end.character - range.start.character) === this.leader.length;
         })) {
             return await this.deleteRanges();
         }
@@ -173,18 +211,26 @@ class TextEditorAbbrevHandler {
 
             // insert
             if (!existingRange && change.text === this.leader) {
-                ranges.push(new Range(change.range.start, change.range.start.translate(0, 1)));
+                const range = new Range(change.range.start, change.range.start.translate(0, this.leader.length));
+                ranges.push(range);
+                // Typing the leader over a selection keeps the selected text for paired abbreviations.
+                const selected = change.rangeLength > 0 && this.selectedTexts.find((s) => s.range.isEqual(change.range));
+                if (selected) { wrappedTexts.set(range, selected.text); }
                 isInsert = true;
             }
 
             if (existingRange) {
                 // modification
-                ranges.push(new Range(existingRange.start,
-                    existingRange.end.translate(0, change.text.length - change.rangeLength)));
+                const range = new Range(existingRange.start,
+                    existingRange.end.translate(0, change.text.length - change.rangeLength));
+                ranges.push(range);
+                if (this.wrappedTexts.has(existingRange)) {
+                    wrappedTexts.set(range, this.wrappedTexts.get(existingRange));
+                }
             }
         })
 
-        await this.updateRanges(ranges)
+        await this.updateRanges(ranges, wrappedTexts)
 
         if(!isInsert && changes.every(change => /^\s+$/.exec(change.text) || change.text === this.leader)) {
             await this.convertRanges(changes[0].text === this.leader);
@@ -192,11 +238,14 @@ class TextEditorAbbrevHandler {
     }
 
     async onSelectionChanged(ev: TextEditorSelectionChangeEvent) {
+        this.selectedTexts = ev.selections.filter((sel) => !sel.isEmpty)
+            .map((sel) => ({ range: new Range(sel.start, sel.end), text: this.editor.document.getText(sel) }));
+
         const rangesUnselected = this.ranges.every(range => {
             return !ev.selections.some(selection => range.contains(selection.active))
         })
 
-        if (rangesUnselected) {
+        if (this.ranges.length > 0 && rangesUnselected) {
             await this.convertRanges();
         }
     }
@@ -207,16 +256,19 @@ export class LeanInputAbbreviator {
     leader = inputModeLeader();
     enabled = inputModeEnabled();
     languages = inputModeLanguages();
-    customTranslations = inputModeCustomTranslations();
+    customTranslations: Translations;
     allTranslations: Translations;
+    engine: AbbreviationEngine;
 
     private handlers = new Map<TextEditor, TextEditorAbbrevHandler>();
+    /** Abbreviations which were converted or completed, the most recent first. */
+    recentAbbreviations: string[] = [];
 
     decorationType: TextEditorDecorationType;
 
-    constructor(private translations: Translations) {
+    constructor(private translations: Translations, private packs: AbbreviationPacks) {
         this.translations = Object.assign({}, translations);
-        this.allTranslations = {...this.translations, ...this.customTranslations};
+        this.updateTranslations();
 
         this.decorationType = window.createTextEditorDecorationType({
             textDecoration: 'underline',
@@ -258,9 +310,15 @@ export class LeanInputAbbreviator {
             this.leader = inputModeLeader();
             this.enabled = inputModeEnabled();
             this.languages = inputModeLanguages();
-            this.customTranslations = inputModeCustomTranslations();
-            this.allTranslations = {...this.translations, ...this.customTranslations};
+            this.updateTranslations();
         }));
+        this.subscriptions.push(packs.onDidChange(() => this.updateTranslations()));
+    }
+
+    private updateTranslations() {
+        this.customTranslations = this.packs.translations;
+        this.allTranslations = {...this.translations, ...this.customTranslations};
+        this.engine = new AbbreviationEngine(this.allTranslations, this.leader);
     }
 
     private async setInputActive(isActive: boolean) {
@@ -276,28 +334,14 @@ export class LeanInputAbbreviator {
         await this.setInputActive(this.active);
     }
 
-    findReplacement(typedAbbrev: string): string | undefined {
-        if (typedAbbrev === '') { return undefined; }
-
-        if (this.allTranslations[typedAbbrev]) { return this.allTranslations[typedAbbrev]; }
-
-        let shortestExtension: string = null;
-        for (const abbrev in this.allTranslations) {
-            if (abbrev.startsWith(typedAbbrev) && (!shortestExtension || abbrev.length < shortestExtension.length)) {
-                shortestExtension = abbrev;
-            }
-        }
+    recordUse(abbrev: string): void {
+        if (!this.allTranslations[abbrev]) { return; }
+        this.recentAbbreviations = [abbrev].concat(this.recentAbbreviations.filter((a) => a !== abbrev))
+            .slice(0, MAX_RECENT_ABBREVIATIONS);
+    }
 
-        if (shortestExtension) {
-            return this.allTranslations[shortestExtension];
-        } else if (typedAbbrev) {
-            const prefixReplacement = this.findReplacement(
-                typedAbbrev.slice(0, typedAbbrev.length - 1));
-            if (prefixReplacement) {
-                return prefixReplacement + typedAbbrev.slice(typedAbbrev.length - 1);
-            }
-        }
-        return null;
+    findReplacement(typedAbbrev: string): string | undefined {
+        return this.engine.findReplacement(typedAbbrev);
     }
 
     private isSupportedFile(document: TextDocument) {
@@ -324,9 +368,11 @@ export class LeanInputAbbreviator {
 
         if (!this.isSupportedFile(editor.document)) { return; } // Lean file
 
-        if (this.handlers.has(editor)) {
-            await this.handlers.get(editor).onSelectionChanged(ev);
+        // The handler needs to know the selections before the leader is typed over them.
+        if (!this.handlers.has(editor)) {
+            this.handlers.set(editor, new TextEditorAbbrevHandler(editor, this));
         }
+        await this.handlers.get(editor).onSelectionChanged(ev);
     }
 
     dispose(): void {
@@ -336,3 +382,120 @@ export class LeanInputAbbreviator {
         }
     }
 }
+
+/** Lists the abbreviations matching what has been typed after the leader, together with their Unicode results. */
+export class LeanInputCompletionProvider implements CompletionItemProvider, Disposable {
+    private subscriptions: Disposable[] = [];
+    /** The registration for `selector`, which is triggered by the current leader. */
+    private registration: Disposable;
+
+    constructor(private abbreviator: LeanInputAbbreviator, private selector: DocumentSelector) {
+        this.register();
+        this.subscriptions.push(
+            commands.registerCommand('_lean.input.recordAbbreviation',
+                (abbrev: string) => this.abbreviator.recordUse(abbrev)),
+            workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('lean.input.leader')) { this.register(); }
+            }),
+        );
+    }
+
+    private register() {
+        if (this.registration) { this.registration.dispose(); }
+        this.registration = languages.registerCompletionItemProvider(this.selector, this, inputModeLeader());
+    }
+
+    provideCompletionItems(document: TextDocument, position: Position): CompletionList | undefined {
+        if (!this.abbreviator.enabled) { return undefined; }
+        const leader = this.abbreviator.leader;
+        const lineText = document.lineAt(position.line).text.substr(0, position.character);
+        const start = lineText.lastIndexOf(leader);
+        if (start === -1) { return undefined; }
+        const typed = lineText.substr(start + leader.length);
+        if (/\s/.test(typed) || typed.includes(leader)) { return undefined; }
+
+        // Exact matches come first, then the recently used abbreviations, then the shortest ones.
+        const recent = this.abbreviator.recentAbbreviations;
+        const rank = (abbrev: string) => abbrev === typed ? '0' :
+            recent.includes(abbrev) ? '1' + recent.indexOf(abbrev).toString().padStart(3, '0') :
+            '2' + abbrev.length.toString().padStart(3, '0') + abbrev;
+
+        const range = new Range(position.line, start, position.line, position.character);
+        const translations = this.abbreviator.allTranslations;
+        const items: CompletionItem[] = [];
+        for (const abbrev of Object.getOwnPropertyNames(translations)) {
+            const unicode = translations[abbrev];
+            if (!unicode || !abbrev.startsWith(typed)) { continue; }
+            const item = new CompletionItem(leader + abbrev, CompletionItemKind.Text);
+            const [open, close] = splitAtCursor(unicode);
+            item.detail = open + close;
+            // Put the cursor between the brackets of paired translations.
+            item.insertText = unicode.includes(CURSOR_MARKER) ?
+                new SnippetString().appendText(open).appendTabstop(0).appendText(close) : unicode;
+            item.range = range;
+            item.sortText = rank(abbrev);
+            // Filter on what has been typed only, so that VS Code keeps our order.
+            item.filterText = leader + typed;
+            item.command = { command: '_lean.input.recordAbbreviation', title: '', arguments: [abbrev] };
+            items.push(item);
+        }
+        // Ask again for every keystroke, since the ranking depends on what has been typed.
+        return new CompletionList(items, true);
+    }
+
+    dispose(): void {
+        this.registration.dispose();
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
+
+/**
+ * Replaces `text` in the selections of `editor` by `convert(text)`, or the whole
+ * document if nothing is selected.  `wholeDocument` tells which one is converted.
+ */
+async function convertSelectionsOrDocument(editor: TextEditor,
+                                           convert: (text: string, wholeDocument: boolean) => string) {
+    const document = editor.document;
+    const wholeDocument = editor.selections.every((sel) => sel.isEmpty);
+    const ranges = wholeDocument ?
+        [new Range(document.positionAt(0), document.positionAt(document.getText().length))] :
+        editor.selections.filter((sel) => !sel.isEmpty);
+    await editor.edit((builder) => {
+        for (const range of ranges) {
+            const text = document.getText(range);
+            const converted = convert(text, wholeDocument);
+            if (converted !== text) { builder.replace(range, converted); }
+        }
+    });
+}
+
+/** Converts between Unicode symbols and their abbreviations in the selection or the whole file.
+ * In a whole Lean file, comments and strings are not converted.
+ */
+export class LeanInputConverter implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private converter: AbbreviationConverter;
+
+    constructor(private translations: Translations, private packs: AbbreviationPacks) {
+        this.readConfig();
+        this.subscriptions.push(
+            workspace.onDidChangeConfiguration(() => this.readConfig()),
+            packs.onDidChange(() => this.readConfig()),
+            commands.registerTextEditorCommand('lean.input.convertToAbbreviations', (editor) =>
+                convertSelectionsOrDocument(editor, (text, wholeDocument) =>
+                    this.converter.toAbbreviations(text, wholeDocument && editor.document.languageId === 'lean'))),
+            commands.registerTextEditorCommand('lean.input.convertFromAbbreviations', (editor) =>
+                convertSelectionsOrDocument(editor, (text, wholeDocument) =>
+                    this.converter.fromAbbreviations(text, wholeDocument && editor.document.languageId === 'lean'))),
+        );
+    }
+
+    private readConfig() {
+        this.converter = new AbbreviationConverter({ ...this.translations, ...this.packs.translations },
+            inputModeLeader());
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
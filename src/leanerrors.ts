@@ -0,0 +1,39 @@
+/**
+ * The Lean 3 error messages recognized by the diagnostics, independent of VS Code.
+ */
+
+/** What we know about a Lean 3 error message. */
+export interface LeanError {
+    /** Used as the diagnostic code. */
+    code: string;
+    /** Declarations mentioned by the message, which are linked as related information. */
+    names: string[];
+}
+
+/** Recognizes the most common Lean 3 error messages. */
+export function parseLeanError(text: string): LeanError | undefined {
+    let m: RegExpExecArray;
+    if ((m = /^unknown (identifier|constant) '([^']*)'/.exec(text))) {
+        return { code: `unknown-${m[1]}`, names: [m[2]] };
+    } else if (/^(invalid|unknown) namespace( name)? '/.test(text)) {
+        return { code: 'unknown-namespace', names: [] };
+    } else if (/^locale \S+ does not exist/.test(text)) {
+        // From `open_locale` of mathlib.
+        return { code: 'unknown-locale', names: [] };
+    } else if (/^failed to synthesize type class instance for/.test(text)) {
+        // The class is the head symbol of the goal, e.g. `⊢ has_add α`.
+        m = /⊢ (\S+)/.exec(text);
+        return { code: 'instance-not-found', names: m ? [m[1]] : [] };
+    } else if (/^type mismatch/.test(text)) {
+        return { code: 'type-mismatch', names: [] };
+    } else if (/^declaration uses 'sorry'/.test(text)) {
+        return { code: 'sorry', names: [] };
+    } else if (/^don't know how to synthesize placeholder/.test(text)) {
+        return { code: 'placeholder', names: [] };
+    } else if (/^unsolved goals/.test(text)) {
+        return { code: 'unsolved-goals', names: [] };
+    } else if (/^(invalid expression|unexpected token)/.test(text)) {
+        return { code: 'parse-error', names: [] };
+    }
+    return undefined;
+}
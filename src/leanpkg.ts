@@ -1,18 +1,22 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { commands, Disposable, extensions, ProcessExecution, Task, TaskGroup,
-    TaskProvider, Uri, window, workspace } from 'vscode';
+import { commands, Disposable, ProcessExecution, Task, TaskGroup,
+    TaskProvider, tasks, TaskScope, Uri, window, workspace } from 'vscode';
+import { PROJECT_CONFIG_FILE } from './projectconfig';
+import { findLeanFiles, ServerRegistry } from './registry';
 import { Server } from './server';
+import { resolveToolchain } from './toolchain';
 
 export class LeanpkgService implements TaskProvider, Disposable {
-    private leanpkgPathContents: string;
+    /** Contents of the leanpkg.path file, indexed by project root. */
+    private leanpkgPathContents = new Map<string, string>();
     private subscriptions: Disposable[] = [];
-    private leanpkgToml = path.join(workspace.rootPath, 'leanpkg.toml');
-    private leanpkgPath = path.join(workspace.rootPath, 'leanpkg.path');
 
-    constructor(private server: Server) {
-        void this.checkLeanpkgPathFile();
-        void this.checkLeanpkgPathContents();
+    constructor(private registry: ServerRegistry) {
+        for (const server of registry.servers) {
+            void this.checkProject(server);
+        }
+        this.subscriptions.push(registry.onDidAddServer((server) => this.checkProject(server)));
         this.subscriptions.push(workspace.registerTaskProvider('leanpkg', this));
 
         const watcher = workspace.createFileSystemWatcher('**/leanpkg.*');
@@ -20,23 +24,46 @@ export class LeanpkgService implements TaskProvider, Disposable {
         watcher.onDidCreate((u) => this.handleFileChanged(u));
         watcher.onDidDelete((u) => this.handleFileChanged(u));
         this.subscriptions.push(watcher);
+
+        const configWatcher = workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE}`);
+        configWatcher.onDidChange((u) => this.handleFileChanged(u));
+        configWatcher.onDidCreate((u) => this.handleFileChanged(u));
+        configWatcher.onDidDelete((u) => this.handleFileChanged(u));
+        this.subscriptions.push(configWatcher);
     }
 
     dispose(): void {
         for (const s of this.subscriptions) { s.dispose(); }
     }
 
+    private async checkProject(server: Server) {
+        const root = server.workingDirectory;
+        if (!root) { return; }
+        await this.checkLeanpkgPathFile(root);
+        await this.checkLeanpkgPathContents(server);
+    }
+
     private async handleFileChanged(uri: Uri) {
-        if (uri.fsPath === path.join(workspace.rootPath, 'leanpkg.toml')) {
-            await this.checkLeanpkgPathFile();
-        } else if (uri.fsPath === path.join(workspace.rootPath, 'leanpkg.path')) {
-            await this.checkLeanpkgPathContents(true);
+        const server = this.registry.servers.find((s) =>
+            s.workingDirectory && path.dirname(uri.fsPath) === s.workingDirectory);
+        if (!server) { return; }
+        if (uri.fsPath === path.join(server.workingDirectory, 'leanpkg.toml')) {
+            await this.checkLeanpkgPathFile(server.workingDirectory);
+        } else if (uri.fsPath === path.join(server.workingDirectory, 'leanpkg.path')) {
+            await this.checkLeanpkgPathContents(server, true);
+        } else if (uri.fsPath === path.join(server.workingDirectory, PROJECT_CONFIG_FILE)) {
+            await server.requestRestart(`Lean: ${PROJECT_CONFIG_FILE} changed in ${server.workingDirectory}.`, true);
         }
     }
 
-    private mkTask(command: string): Task {
-        const task = new Task({ type: 'leanpkg', command }, command, 'leanpkg',
-            new ProcessExecution(this.leanpkgExecutable(), [command]), []);
+    private mkTask(command: string, root?: string): Task {
+        const folder = root && workspace.getWorkspaceFolder(Uri.file(root));
+        const isFolderRoot = !root || (folder && folder.uri.fsPath === root);
+        const name = isFolderRoot ? command : `${command} (${path.basename(root)})`;
+        const toolchain = resolveToolchain(root);
+        const task = new Task({ type: 'leanpkg', command, root }, folder || TaskScope.Workspace, name, 'leanpkg',
+            new ProcessExecution(toolchain.leanpkgExecutable, [command],
+                root ? { cwd: root, env: toolchain.env } : { env: toolchain.env }), []);
         task.group = TaskGroup.Build;
         task.presentationOptions = {
             echo: true,
@@ -46,45 +73,41 @@ export class LeanpkgService implements TaskProvider, Disposable {
     }
 
     provideTasks(): Task[] {
-        return ['build', 'configure', 'upgrade'].map((c) => this.mkTask(c));
+        const roots = this.registry.servers.map((s) => s.workingDirectory).filter((r) => r);
+        if (roots.length === 0) { roots.push(undefined); }
+        const result: Task[] = [];
+        for (const root of roots) {
+            for (const command of ['build', 'configure', 'upgrade']) {
+                result.push(this.mkTask(command, root));
+            }
+        }
+        return result;
     }
     resolveTask(task: Task): Task {
         return undefined;
     }
 
-    leanpkgExecutable(): string {
-        const config = workspace.getConfiguration('lean');
-
-        const {extensionPath} = extensions.getExtension('jroesch.lean');
-        const leanpkg = config.get<string>('leanpkgPath').replace('%extensionPath%', extensionPath + '/');
-        if (leanpkg) { return leanpkg; }
-
-        const leanPath = config.get<string>('executablePath').replace('%extensionPath%', extensionPath + '/');
-        if (leanPath) {
-            const leanpkg2 = path.join(path.dirname(leanPath), 'leanpkg');
-            if (fs.existsSync(leanpkg2)) { return leanpkg2; }
-        }
-
-        return 'leanpkg';
-    }
-
-    private async checkLeanpkgPathContents(promptForRestart?: boolean) {
-        const oldContents = this.leanpkgPathContents;
-        this.leanpkgPathContents = fs.existsSync(this.leanpkgPath) &&
-            fs.readFileSync(this.leanpkgPath).toString();
-        if (oldContents !== this.leanpkgPathContents && promptForRestart) {
-            await this.server.requestRestart('Lean: leanpkg.path changed.', true);
+    private async checkLeanpkgPathContents(server: Server, promptForRestart?: boolean) {
+        const root = server.workingDirectory;
+        const leanpkgPath = path.join(root, 'leanpkg.path');
+        const oldContents = this.leanpkgPathContents.get(root);
+        const contents = fs.existsSync(leanpkgPath) && fs.readFileSync(leanpkgPath).toString();
+        this.leanpkgPathContents.set(root, contents);
+        if (oldContents !== contents && promptForRestart) {
+            await server.requestRestart(`Lean: leanpkg.path changed in ${root}.`, true);
         }
     }
 
-    private async checkLeanpkgPathFile() {
-        if (!fs.existsSync(this.leanpkgToml) && !fs.existsSync(this.leanpkgPath)) {
-            const leanFiles = await workspace.findFiles('**/*.lean', undefined, 1);
+    private async checkLeanpkgPathFile(root: string) {
+        const leanpkgToml = path.join(root, 'leanpkg.toml');
+        const leanpkgPath = path.join(root, 'leanpkg.path');
+        if (!fs.existsSync(leanpkgToml) && !fs.existsSync(leanpkgPath)) {
+            const leanFiles = await findLeanFiles(1);
             // Only show warning if there are Lean files, see https://github.com/leanprover/vscode-lean/issues/133
             // (The extension is also activated for Markdown files.)
             if (leanFiles.length === 0) return;
 
-            let folder = workspace.rootPath;
+            let folder = root;
             while (true) {
                 const parent = path.dirname(folder);
                 if (parent === folder) break;
@@ -100,7 +123,9 @@ export class LeanpkgService implements TaskProvider, Disposable {
                     `instead (which is ${parent}).  You can also do this manually using "File / Open Folder...".`;
                 const clicked = await window.showErrorMessage(admonition, {modal: true}, ok);
                 if (clicked === ok) {
-                    workspace.updateWorkspaceFolders(0, 1, { uri: Uri.file(parent) });
+                    const wsFolder = workspace.getWorkspaceFolder(Uri.file(root));
+                    const index = wsFolder ? wsFolder.index : 0;
+                    workspace.updateWorkspaceFolders(index, 1, { uri: Uri.file(parent) });
                 }
                 return;
             }
@@ -110,24 +135,23 @@ You are running Lean in a directory without a leanpkg.toml file, this is NOT
 supported.  Please open the directory containing the leanpkg.toml file
 instead (using "File / Open Folder..."). [More details
 here](https://leanprover-community.github.io/install/project.html)`);
-        } else if (!fs.existsSync(this.leanpkgPath)) {
-            await this.requestLeanpkgConfigure('Lean: leanpkg.path does not exist');
-        } else if (fs.statSync(this.leanpkgPath) < fs.statSync(this.leanpkgToml)) {
-            await this.requestLeanpkgConfigure('Lean: leanpkg.path out of date');
+        } else if (!fs.existsSync(leanpkgPath)) {
+            await this.requestLeanpkgConfigure(root, `Lean: leanpkg.path does not exist in ${root}`);
+        } else if (fs.statSync(leanpkgPath) < fs.statSync(leanpkgToml)) {
+            await this.requestLeanpkgConfigure(root, `Lean: leanpkg.path out of date in ${root}`);
         }
     }
 
-    private async requestLeanpkgConfigure(message: string) {
+    private async requestLeanpkgConfigure(root: string, message: string) {
         const configureItem = 'Run leanpkg configure.';
         const chosen = await window.showErrorMessage(message, configureItem);
         if (chosen === configureItem) {
-            await this.configure();
+            await this.configure(root);
         }
     }
 
-    private async configure() {
-        await commands.executeCommand('workbench.action.tasks.runTask',
-            'leanpkg: configure');
+    private async configure(root: string) {
+        await tasks.executeTask(this.mkTask('configure', root));
     }
 
     private async build() {
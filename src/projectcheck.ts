@@ -0,0 +1,304 @@
+import * as fs from 'fs';
+import { CurrentTasksResponse, Message } from 'lean-client-js-node';
+import { commands, Disposable, Event, EventEmitter, ExtensionContext, Range, TreeDataProvider, TreeItem,
+    Uri, window, workspace } from 'vscode';
+import { dependencyOrder } from './imports';
+import { findLeanFiles, ServerRegistry } from './registry';
+import { Server } from './server';
+import { mediaIcon } from './util';
+
+export type FileCheckStatus = 'pending' | 'checking' | 'ok' | 'errors';
+
+export interface FileCheck {
+    fileName: string;
+    status: FileCheckStatus;
+    errors: number;
+    sorries: number;
+    firstError?: Message;
+    started?: number;
+    finished?: number;
+}
+
+/** Sorts the Lean files `fileNames` such that every file comes after the files it imports. */
+async function dependencyOrderOfFiles(fileNames: string[]): Promise<string[]> {
+    const texts = new Map<string, string>();
+    await Promise.all(fileNames.map(async (fileName) => {
+        try {
+            texts.set(fileName, await fs.promises.readFile(fileName, 'utf8'));
+        } catch (e) {}
+    }));
+    return dependencyOrder(fileNames, (fileName) => texts.get(fileName) || '');
+}
+
+function formatDuration(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Checks all Lean files of the workspace for the "project files" region of interest.
+ *
+ * Instead of giving the servers all files at once, files are added to the region
+ * of interest one at a time per server in dependency order, so that we can tell
+ * how far the check has got and how long each file took.
+ */
+export class ProjectChecker implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private checks = new Map<string, FileCheck>();
+    private order: string[] = [];
+    private started?: number;
+    private finished?: number;
+    private running = false;
+    /** What the task list of each server has shown since its current file has been released. */
+    private progress = new Map<Server, { covered: boolean; busy: boolean }>();
+    private watchedServers = new Set<Server>();
+
+    private releasedEmitter = new EventEmitter<Server>();
+    /** Fires when more files of a server should be added to the region of interest. */
+    onDidRelease: Event<Server> = this.releasedEmitter.event;
+    private changedEmitter = new EventEmitter<void>();
+    /** Fires when the status of any file has changed. */
+    onDidChange: Event<void> = this.changedEmitter.event;
+
+    constructor(private registry: ServerRegistry) {
+        this.subscriptions.push(
+            this.releasedEmitter, this.changedEmitter,
+            registry.onDidChangeMessages((server) => this.updateMessages(server)),
+            registry.onDidRestart((server) => this.reset(server)),
+        );
+    }
+
+    get files(): FileCheck[] {
+        return this.order.map((fileName) => this.checks.get(fileName));
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    get elapsed(): number | undefined {
+        return this.started && (this.finished || Date.now()) - this.started;
+    }
+
+    /** The files of `server` which should be in the region of interest. */
+    releasedFiles(server: Server): string[] {
+        return this.files.filter((f) => f.status !== 'pending' && this.registry.serverFor(f.fileName) === server)
+            .map((f) => f.fileName);
+    }
+
+    async start(): Promise<void> {
+        this.stop();
+        this.running = true;
+        this.started = Date.now();
+        this.finished = undefined;
+        await commands.executeCommand('setContext', 'lean.projectCheck', true);
+
+        const files = await findLeanFiles();
+        if (!this.running) { return; }
+        this.order = await dependencyOrderOfFiles(files.map((f) => f.fsPath));
+        this.checks = new Map(this.order.map((fileName): [string, FileCheck] =>
+            [fileName, { fileName, status: 'pending', errors: 0, sorries: 0 }]));
+        this.changedEmitter.fire();
+
+        for (const server of new Set(this.order.map((f) => this.registry.serverFor(f)))) {
+            if (!this.watchedServers.has(server)) {
+                this.watchedServers.add(server);
+                this.subscriptions.push(server.tasks.on((tasks) => this.updateTasks(server, tasks)));
+            }
+            if (!server.alive()) {
+                // Connecting makes the region of interest manager send the files to the server.
+                server.connect();
+            }
+            this.advance(server);
+        }
+    }
+
+    stop(): void {
+        this.running = false;
+        this.progress.clear();
+        this.changedEmitter.fire();
+    }
+
+    /** Starts checking the next pending file of `server`, unless it is still busy with another one. */
+    private advance(server: Server) {
+        if (!this.running) { return; }
+        const files = this.files.filter((f) => this.registry.serverFor(f.fileName) === server);
+        if (files.some((f) => f.status === 'checking')) { return; }
+        const next = files.find((f) => f.status === 'pending');
+        if (next) {
+            next.status = 'checking';
+            next.started = Date.now();
+            // Open files are checked already, so the server only has to finish what it is doing.
+            const isOpen = workspace.textDocuments.some((d) => d.fileName === next.fileName);
+            this.progress.set(server, { covered: false, busy: isOpen });
+            this.releasedEmitter.fire(server);
+            const status = server.statusChanged.currentValue;
+            if (isOpen && server.alive() && status && !status.isRunning && status.numberOfTasks === 0) {
+                this.finish(next, server);
+                return;
+            }
+        } else if (this.files.every((f) => f.status !== 'pending' && f.status !== 'checking')) {
+            this.running = false;
+            this.finished = Date.now();
+        }
+        this.changedEmitter.fire();
+    }
+
+    /**
+     * The current file of `server` is done once the task list of the server has covered it and does
+     * not anymore.  Small files may be done before the server reports a task for them, so a server
+     * which has been busy with something else since the file was released and is idle now is done with it too.
+     */
+    private updateTasks(server: Server, tasks: CurrentTasksResponse) {
+        const checking = this.files.find((f) => f.status === 'checking' &&
+            this.registry.serverFor(f.fileName) === server);
+        const progress = this.progress.get(server);
+        if (!checking || !progress) { return; }
+        if (tasks.tasks.some((t) => t.file_name === checking.fileName)) {
+            progress.covered = true;
+        } else if (progress.covered || (progress.busy && !tasks.is_running)) {
+            this.finish(checking, server);
+        } else if (tasks.is_running) {
+            progress.busy = true;
+        }
+    }
+
+    private finish(check: FileCheck, server: Server) {
+        this.progress.delete(server);
+        check.finished = Date.now();
+        this.updateCheck(check, server);
+        this.advance(server);
+    }
+
+    private updateCheck(check: FileCheck, server: Server) {
+        const msgs = server.messages.filter((m) => m.file_name === check.fileName);
+        const errors = msgs.filter((m) => m.severity === 'error')
+            .sort((a, b) => a.pos_line - b.pos_line || a.pos_col - b.pos_col);
+        check.errors = errors.length;
+        check.firstError = errors[0];
+        check.sorries = msgs.filter((m) => m.severity === 'warning' && m.text === 'declaration uses \'sorry\'').length;
+        // Messages can still arrive after the file is done, e.g. when the server reports them late.
+        if (check.finished) {
+            check.status = errors.length ? 'errors' : 'ok';
+        }
+    }
+
+    private updateMessages(server: Server) {
+        for (const check of this.files) {
+            if (check.status !== 'pending' && this.registry.serverFor(check.fileName) === server) {
+                this.updateCheck(check, server);
+            }
+        }
+        this.changedEmitter.fire();
+    }
+
+    /** A restarted server has to check its files again. */
+    private reset(server: Server) {
+        if (!this.running) { return; }
+        for (const check of this.files) {
+            if (this.registry.serverFor(check.fileName) === server) {
+                this.checks.set(check.fileName, { fileName: check.fileName, status: 'pending', errors: 0, sorries: 0 });
+            }
+        }
+        this.advance(server);
+    }
+
+    dispose(): void {
+        this.stop();
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
+
+type ProjectCheckItem = FileCheck | 'summary';
+
+/** Shows the progress of the project check in the "Lean Project Check" view. */
+export class ProjectCheckView implements TreeDataProvider<ProjectCheckItem>, Disposable {
+    private subscriptions: Disposable[] = [];
+    private changedEmitter = new EventEmitter<ProjectCheckItem | undefined>();
+    onDidChangeTreeData = this.changedEmitter.event;
+    private elapsedTimer?: NodeJS.Timer;
+
+    constructor(private checker: ProjectChecker, private context: ExtensionContext) {
+        this.subscriptions.push(
+            this.changedEmitter,
+            window.registerTreeDataProvider('leanProjectCheck', this),
+            checker.onDidChange(() => this.refresh()),
+            commands.registerCommand('_lean.projectCheck.reveal', (fileName: string, message?: Message) =>
+                this.reveal(fileName, message)),
+        );
+    }
+
+    private refresh() {
+        this.changedEmitter.fire(undefined);
+        if (this.checker.isRunning && !this.elapsedTimer) {
+            // Keep the elapsed time up to date.
+            this.elapsedTimer = setInterval(() => this.changedEmitter.fire('summary'), 1000);
+        } else if (!this.checker.isRunning && this.elapsedTimer) {
+            clearInterval(this.elapsedTimer);
+            this.elapsedTimer = undefined;
+        }
+    }
+
+    getChildren(element?: ProjectCheckItem): ProjectCheckItem[] {
+        if (element) { return []; }
+        return ['summary' as ProjectCheckItem].concat(this.checker.files);
+    }
+
+    getTreeItem(element: ProjectCheckItem): TreeItem {
+        if (element === 'summary') {
+            const files = this.checker.files;
+            const done = files.filter((f) => f.status === 'ok' || f.status === 'errors');
+            const summary = new TreeItem(`Checked ${done.length} of ${files.length} files`);
+            const withErrors = done.filter((f) => f.status === 'errors').length;
+            const elapsed = this.checker.elapsed;
+            summary.description = [
+                withErrors && `${withErrors} with errors`,
+                elapsed !== undefined && `${formatDuration(elapsed)} elapsed`,
+                !this.checker.isRunning && done.length < files.length && 'stopped',
+            ].filter((s) => s).join(', ');
+            return summary;
+        }
+
+        const item = new TreeItem(workspace.asRelativePath(element.fileName));
+        const details: string[] = [];
+        switch (element.status) {
+            case 'pending':
+                details.push('pending');
+                item.iconPath = mediaIcon(this.context, 'pending');
+                break;
+            case 'checking':
+                details.push(`checking (${formatDuration(Date.now() - element.started)})`);
+                item.iconPath = mediaIcon(this.context, 'refresh');
+                break;
+            case 'ok':
+                details.push('ok');
+                item.iconPath = mediaIcon(this.context, 'check');
+                break;
+            case 'errors':
+                details.push(`${element.errors} error${element.errors === 1 ? '' : 's'}`);
+                item.iconPath = mediaIcon(this.context, 'error');
+                break;
+        }
+        if (element.sorries) { details.push(`${element.sorries} sorr${element.sorries === 1 ? 'y' : 'ies'}`); }
+        if (element.finished) { details.push(formatDuration(element.finished - element.started)); }
+        item.description = details.join(', ');
+        item.tooltip = element.fileName;
+        item.command = {
+            command: '_lean.projectCheck.reveal',
+            title: element.firstError ? 'Go to first error' : 'Open file',
+            arguments: [element.fileName, element.firstError],
+        };
+        return item;
+    }
+
+    private async reveal(fileName: string, message?: Message) {
+        const pos = message ? Math.max(message.pos_line - 1, 0) : 0;
+        const col = message ? message.pos_col : 0;
+        await window.showTextDocument(Uri.file(fileName), { selection: new Range(pos, col, pos, col) });
+    }
+
+    dispose(): void {
+        if (this.elapsedTimer) { clearInterval(this.elapsedTimer); }
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
@@ -0,0 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Name of the file next to `leanpkg.toml` that overrides server settings for a project. */
+export const PROJECT_CONFIG_FILE = '.vscode-lean.json';
+
+/** Per-project overrides of the `lean.*` server settings. */
+export interface ProjectConfig {
+    memoryLimit?: number;
+    timeLimit?: number;
+    extraOptions?: string[];
+}
+
+/** Reads the project configuration in `root`, if there is one.
+ * Throws if the file exists but cannot be parsed.
+ */
+export function readProjectConfig(root: string): ProjectConfig | undefined {
+    if (!root) { return undefined; }
+    const fileName = path.join(root, PROJECT_CONFIG_FILE);
+    if (!fs.existsSync(fileName)) { return undefined; }
+
+    let config: ProjectConfig;
+    try {
+        config = JSON.parse(fs.readFileSync(fileName).toString()) as ProjectConfig;
+    } catch (e) {
+        throw new Error(`Could not parse ${fileName}: ${e.message}`);
+    }
+    if (config.memoryLimit !== undefined && typeof config.memoryLimit !== 'number') {
+        throw new Error(`${fileName}: "memoryLimit" must be a number`);
+    }
+    if (config.timeLimit !== undefined && typeof config.timeLimit !== 'number') {
+        throw new Error(`${fileName}: "timeLimit" must be a number`);
+    }
+    if (config.extraOptions !== undefined &&
+            !(Array.isArray(config.extraOptions) && config.extraOptions.every((o) => typeof o === 'string'))) {
+        throw new Error(`${fileName}: "extraOptions" must be an array of strings`);
+    }
+    return config;
+}
@@ -0,0 +1,159 @@
+import { existsSync } from 'fs';
+import { Message, Task } from 'lean-client-js-node';
+import * as path from 'path';
+import { Disposable, DocumentFilter, EventEmitter, languages, Uri, window, workspace } from 'vscode';
+import { Server } from './server';
+import { LeanCapabilities, ServerStatus } from './shared';
+import { ProtocolTracer } from './trace';
+import { capabilitiesOfVersion } from './version';
+
+/** The dependencies of projects, which belong to the enclosing project and are not scanned. */
+export const DEPENDENCIES_GLOB = '**/_target/**';
+
+/** Whether `fileName` is in the `_target` directory of a project, e.g. a dependency in `_target/deps`. */
+export function isDependency(fileName: string): boolean {
+    return fileName.split(path.sep).includes('_target');
+}
+
+/** The Lean files of the workspace, without the dependencies of projects. */
+export function findLeanFiles(maxResults?: number): Thenable<Uri[]> {
+    // An exclude pattern replaces the `files.exclude` setting, so add its patterns.
+    const excludes = workspace.getConfiguration('files').get<{ [glob: string]: boolean }>('exclude', {});
+    const globs = [DEPENDENCIES_GLOB, ...Object.keys(excludes).filter((glob) => excludes[glob] === true)];
+    return workspace.findFiles('**/*.lean', `{${globs.join(',')}}`, maxResults);
+}
+
+/**
+ * Keeps one Lean server per project.
+ *
+ * A project is the closest directory containing a `leanpkg.toml` file, or
+ * the workspace folder if there is none.  Files in the `_target` directory
+ * of a project, e.g. its dependencies, belong to that project.  Servers are started lazily the
+ * first time a file of that project is requested.
+ */
+export class ServerRegistry implements Disposable {
+    private serversByRoot = new Map<string, Server>();
+    private rootCache = new Map<string, string>();
+    private subscriptions: Disposable[] = [];
+
+    private addedEmitter = new EventEmitter<Server>();
+    /** Fires when a server for a new project has been created. */
+    onDidAddServer = this.addedEmitter.event;
+    private restartedEmitter = new EventEmitter<Server>();
+    /** Fires whenever any of the servers (re)connects. */
+    onDidRestart = this.restartedEmitter.event;
+    private messagesEmitter = new EventEmitter<Server>();
+    /** Fires whenever the messages of any of the servers change. */
+    onDidChangeMessages = this.messagesEmitter.event;
+    private statusEmitter = new EventEmitter<Server>();
+    /** Fires whenever the (low-pass filtered) status of any of the servers changes. */
+    onDidChangeStatus = this.statusEmitter.event;
+    private capabilitiesEmitter = new EventEmitter<Server>();
+    /** Fires when the version of any of the servers has been detected. */
+    onDidChangeCapabilities = this.capabilitiesEmitter.event;
+
+    constructor(private documentFilter: DocumentFilter, private tracer?: ProtocolTracer) {
+        const watcher = workspace.createFileSystemWatcher('**/leanpkg.toml', false, true, false);
+        this.subscriptions.push(
+            watcher,
+            watcher.onDidCreate(() => this.rootCache.clear()),
+            watcher.onDidDelete(() => this.rootCache.clear()),
+            workspace.onDidChangeWorkspaceFolders(() => this.rootCache.clear()),
+            this.addedEmitter, this.restartedEmitter, this.messagesEmitter, this.statusEmitter,
+            this.capabilitiesEmitter,
+        );
+    }
+
+    get servers(): Server[] {
+        return [...this.serversByRoot.values()];
+    }
+
+    /** All messages of all servers. */
+    get messages(): Message[] {
+        return [].concat(...this.servers.map((s) => s.messages));
+    }
+
+    /** The combined status of all servers. */
+    get status(): ServerStatus {
+        const statuses = this.servers.map((s) => s.statusChanged.currentValue).filter((s) => s);
+        return {
+            isRunning: statuses.some((s) => s.isRunning),
+            numberOfTasks: statuses.reduce((n, s) => n + s.numberOfTasks, 0),
+            stopped: statuses.length > 0 && statuses.every((s) => s.stopped),
+            tasks: ([] as Task[]).concat(...statuses.map((s) => s.tasks)),
+        };
+    }
+
+    /** The capabilities supported by all running servers. */
+    get capabilities(): LeanCapabilities {
+        const capabilities = capabilitiesOfVersion(undefined);
+        for (const server of this.servers.filter((s) => s.alive())) {
+            for (const key of Object.keys(capabilities) as (keyof LeanCapabilities)[]) {
+                capabilities[key] = capabilities[key] && server.capabilities[key];
+            }
+        }
+        return capabilities;
+    }
+
+    /** The directory a Lean server for `fileName` should be started in. */
+    projectRoot(fileName: string): string {
+        if (!path.isAbsolute(fileName)) { return workspace.rootPath; }
+        const folder = workspace.getWorkspaceFolder(Uri.file(fileName));
+        const folderPath = folder && folder.uri.fsPath;
+
+        const dir = path.dirname(fileName);
+        let root = this.rootCache.get(dir);
+        if (root !== undefined) { return root; }
+
+        let found: string | undefined;
+        let cur = dir;
+        while (true) {
+            if (path.basename(cur) === '_target') {
+                // Dependencies have their own `leanpkg.toml`, but are checked by the enclosing project.
+                found = undefined;
+            } else if (!found && existsSync(path.join(cur, 'leanpkg.toml'))) {
+                found = cur;
+            }
+            const parent = path.dirname(cur);
+            if (cur === folderPath || parent === cur) { break; }
+            cur = parent;
+        }
+        root = found || folderPath || workspace.rootPath;
+        this.rootCache.set(dir, root);
+        return root;
+    }
+
+    /** Returns the server responsible for `fileName`, creating it if necessary. */
+    serverFor(fileName: string): Server {
+        return this.serverForRoot(this.projectRoot(fileName));
+    }
+
+    serverForRoot(root: string): Server {
+        let server = this.serversByRoot.get(root || '');
+        if (!server) {
+            server = new Server(root);
+            server.tracer = this.tracer;
+            this.serversByRoot.set(root || '', server);
+            this.subscriptions.push(server,
+                server.restarted.on(() => this.restartedEmitter.fire(server)),
+                server.allMessages.on(() => this.messagesEmitter.fire(server)),
+                server.statusChanged.on(() => this.statusEmitter.fire(server)),
+                server.capabilitiesChanged.on(() => this.capabilitiesEmitter.fire(server)));
+            this.addedEmitter.fire(server);
+        }
+        return server;
+    }
+
+    /** The server for the file in the active editor, or any server if there is no active Lean file. */
+    activeServer(): Server | undefined {
+        const editor = window.activeTextEditor;
+        if (editor && languages.match(this.documentFilter, editor.document)) {
+            return this.serverFor(editor.document.fileName);
+        }
+        return this.servers[0];
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
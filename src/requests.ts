@@ -0,0 +1,107 @@
+import { CompleteResponse, InfoResponse } from 'lean-client-js-node';
+import { CancellationToken, Position, TextDocument } from 'vscode';
+import { ServerRegistry } from './registry';
+import { Server } from './server';
+import { LeanSyncService } from './sync';
+
+/** Requests of one kind (e.g. `hover`) to one server, at most one of them is sent at a time. */
+interface Lane {
+    busy: boolean;
+    /** Starts the request waiting for its turn, or drops it if called with false. */
+    next?: (start: boolean) => void;
+}
+
+/**
+ * Sends the `info` and `complete` requests of the hover, completion and definition providers.
+ *
+ * The Lean server does not support cancellation and answers requests one after another,
+ * so moving the cursor quickly would queue up lots of requests behind an elaboration.
+ * Instead, only one request per provider and server is in flight at a time, and a new
+ * request replaces the one waiting for its turn.  Identical requests share the response,
+ * and responses for cancelled requests or outdated documents are dropped.
+ */
+export class ServerRequests {
+    private lanes = new Map<Server, Map<string, Lane>>();
+    private inFlight = new Map<string, Promise<unknown>>();
+
+    constructor(private registry: ServerRegistry, private sync: LeanSyncService) {}
+
+    info(origin: string, document: TextDocument, position: Position,
+            token: CancellationToken): Promise<InfoResponse | undefined> {
+        return this.run(origin, 'info', document, position, token,
+            (server) => server.info(document.fileName, position.line + 1, position.character));
+    }
+
+    complete(origin: string, document: TextDocument, position: Position,
+            token: CancellationToken): Promise<CompleteResponse | undefined> {
+        return this.run(origin, 'complete', document, position, token,
+            (server) => server.complete(document.fileName, position.line + 1, position.character));
+    }
+
+    private async run<T>(origin: string, command: string, document: TextDocument, position: Position,
+            token: CancellationToken, send: (server: Server) => Promise<T>): Promise<T | undefined> {
+        // The request has to see the text the user is looking at, so flush any pending edits first.
+        await this.sync.whenSynced(document);
+        const version = document.version;
+        const isStale = () => token.isCancellationRequested || document.version !== version;
+        if (isStale()) { return undefined; }
+
+        const key = `${command}:${document.fileName}:${version}:${position.line}:${position.character}`;
+        const sent = this.inFlight.get(key) as Promise<T>;
+        if (sent) {
+            const result = await sent;
+            return isStale() ? undefined : result;
+        }
+
+        const server = this.registry.serverFor(document.fileName);
+        const lane = this.lane(server, origin);
+        if (!await this.waitForTurn(lane, token)) { return undefined; }
+        let response: Promise<T>;
+        try {
+            if (isStale()) { return undefined; }
+            response = send(server.from(origin));
+            this.inFlight.set(key, response);
+            const result = await response;
+            return isStale() ? undefined : result;
+        } finally {
+            if (response && this.inFlight.get(key) === response) { this.inFlight.delete(key); }
+            this.release(lane);
+        }
+    }
+
+    private lane(server: Server, origin: string): Lane {
+        let lanes = this.lanes.get(server);
+        if (!lanes) { this.lanes.set(server, lanes = new Map<string, Lane>()); }
+        let lane = lanes.get(origin);
+        if (!lane) { lanes.set(origin, lane = { busy: false }); }
+        return lane;
+    }
+
+    /** Resolves to true once it is our turn to send a request,
+     * or to false if the request has been superseded or cancelled before.
+     */
+    private waitForTurn(lane: Lane, token: CancellationToken): Promise<boolean> {
+        if (!lane.busy) {
+            lane.busy = true;
+            return Promise.resolve(true);
+        }
+        if (lane.next) { lane.next(false); }
+        return new Promise((resolve) => {
+            const done = (start: boolean) => {
+                if (lane.next === done) { lane.next = undefined; }
+                cancellation.dispose();
+                resolve(start);
+            };
+            const cancellation = token.onCancellationRequested(() => done(false));
+            lane.next = done;
+        });
+    }
+
+    private release(lane: Lane) {
+        if (lane.next) {
+            lane.next(true);
+        } else {
+            lane.busy = false;
+        }
+    }
+}
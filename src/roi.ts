@@ -1,6 +1,11 @@
 import { CheckingMode, FileRoi, RoiRange } from 'lean-client-js-node';
+import { basename } from 'path';
 import { commands, Disposable, DocumentFilter, EventEmitter, languages,
-    QuickPickItem, window, workspace } from 'vscode';
+    QuickPickItem, RelativePattern, TextDocument, window, workspace } from 'vscode';
+import { declarationRange } from './declarations';
+import { ProjectChecker } from './projectcheck';
+import { ServerRegistry } from './registry';
+import { RoiPins } from './roipins';
 import { Server } from './server';
 
 export enum RoiMode {
@@ -10,78 +15,125 @@ export enum RoiMode {
     VisibleLinesAndAbove,
     OpenFiles,
     ProjectFiles,
+    CurrentDeclaration,
 }
 
+/** A range covering any file, for files whose length we do not know. */
+const WHOLE_FILE: RoiRange = { begin_line: 1, end_line: 2 ** 31 - 1 };
+
+/** Parses the mode names used in `lean.roiModeDefault` and `lean.roiModeOverrides`. */
+function parseRoiMode(name: unknown): RoiMode | undefined {
+    switch (name) {
+        case 'nothing': return RoiMode.Nothing;
+        case 'visible': return RoiMode.VisibleFiles;
+        case 'lines': return RoiMode.VisibleLines;
+        case 'linesAndAbove': return RoiMode.VisibleLinesAndAbove;
+        case 'open': return RoiMode.OpenFiles;
+        case 'project': return RoiMode.ProjectFiles;
+        case 'declaration': return RoiMode.CurrentDeclaration;
+        default: return undefined;
+    }
+}
+
+const roiModeItems: (QuickPickItem & {mode: RoiMode})[] = [
+    {
+        label: 'nothing',
+        description: 'disable checking',
+        mode: RoiMode.Nothing,
+    },
+    {
+        label: 'visible lines',
+        description: 'check lines that are currently visible',
+        mode: RoiMode.VisibleLines,
+    },
+    {
+        label: 'visible lines and above',
+        description: 'check visible lines and the file above it',
+        mode: RoiMode.VisibleLinesAndAbove,
+    },
+    {
+        label: 'current declaration',
+        description: 'check the declaration under the cursor and the file above it',
+        mode: RoiMode.CurrentDeclaration,
+    },
+    {
+        label: 'visible files',
+        description: 'check files that are currently visible',
+        mode: RoiMode.VisibleFiles,
+    },
+    {
+        label: 'open files',
+        description: 'check files that are opened',
+        mode: RoiMode.OpenFiles,
+    },
+    {
+        label: 'project files',
+        description: 'check files that are in the current workspace',
+        mode: RoiMode.ProjectFiles,
+    },
+];
+
 export class RoiManager implements Disposable {
     mode: RoiMode;
     private modeChangedEmitter = new EventEmitter<RoiMode>();
     onModeChanged = this.modeChangedEmitter.event;
     private subscriptions: Disposable[] = [];
+    /** Modes chosen for single files with `lean.roiMode.selectForFile`. */
+    private fileModes = new Map<string, RoiMode>();
 
-    constructor(private server: Server, private documentFilter: DocumentFilter) {
+    constructor(private registry: ServerRegistry, private documentFilter: DocumentFilter,
+            private projectChecker: ProjectChecker, private pins: RoiPins) {
         this.subscriptions.push(
+            projectChecker.onDidRelease((server) => this.sendTo(server)),
+            pins.onDidChange(() => this.send()),
             window.onDidChangeActiveTextEditor(() => this.send()),
             window.onDidChangeTextEditorSelection(() => this.send()),
             window.onDidChangeVisibleTextEditors(() => this.send()),
             window.onDidChangeTextEditorVisibleRanges(() => this.send()),
             workspace.onDidOpenTextDocument(() => this.send()),
             workspace.onDidCloseTextDocument(() => this.send()),
-            server.restarted.on(() => this.send()),
+            registry.onDidRestart((server) => this.sendTo(server)),
+            workspace.onDidChangeConfiguration(async (e) => {
+                if (e.affectsConfiguration('lean.roiModeOverrides')) {
+                    this.modeChangedEmitter.fire(this.mode);
+                    await this.send();
+                }
+            }),
         );
 
-        switch (workspace.getConfiguration('lean').get('roiModeDefault')) {
-            case 'nothing': this.mode = RoiMode.Nothing; break;
-            case 'visible': this.mode = RoiMode.VisibleFiles; break;
-            case 'lines': this.mode = RoiMode.VisibleLines; break;
-            case 'linesAndAbove': this.mode = RoiMode.VisibleLinesAndAbove; break;
-            case 'open': this.mode = RoiMode.OpenFiles; break;
-            case 'project': this.mode = RoiMode.ProjectFiles; break;
-            default: this.mode = RoiMode.VisibleLinesAndAbove;
-        }
+        const defaultMode = parseRoiMode(workspace.getConfiguration('lean').get('roiModeDefault'));
+        this.mode = defaultMode !== undefined ? defaultMode : RoiMode.VisibleLinesAndAbove;
+        if (this.mode === RoiMode.ProjectFiles) { void this.projectChecker.start(); }
         void this.send();
 
         this.subscriptions.push(commands.registerCommand('lean.roiMode.select', async () => {
-            const items: (QuickPickItem & {mode: RoiMode})[] = [
-                {
-                    label: 'nothing',
-                    description: 'disable checking',
-                    mode: RoiMode.Nothing,
-                },
-                {
-                    label: 'visible lines',
-                    description: 'check lines that are currently visible',
-                    mode: RoiMode.VisibleLines,
-                },
-                {
-                    label: 'visible lines and above',
-                    description: 'check visible lines and the file above it',
-                    mode: RoiMode.VisibleLinesAndAbove,
-                },
-                {
-                    label: 'visible files',
-                    description: 'check files that are currently visible',
-                    mode: RoiMode.VisibleFiles,
-                },
-                {
-                    label: 'open files',
-                    description: 'check files that are opened',
-                    mode: RoiMode.OpenFiles,
-                },
-                {
-                    label: 'project files',
-                    description: 'check files that are in the current workspace',
-                    mode: RoiMode.ProjectFiles,
-                },
-            ];
-            const selected = await window.showQuickPick(items);
+            const selected = await window.showQuickPick(roiModeItems);
             if (selected) { await this.check(selected.mode); }
         }));
+        this.subscriptions.push(commands.registerTextEditorCommand('lean.roiMode.selectForFile', async (editor) => {
+            const fileName = editor.document.fileName;
+            const items: (QuickPickItem & {mode?: RoiMode})[] = [{
+                label: 'default',
+                description: 'use lean.roiModeOverrides or the global region of interest',
+            }, ...roiModeItems.filter((item) => item.mode !== RoiMode.ProjectFiles)];
+            const selected = await window.showQuickPick(items, { placeHolder: `Region of interest for ${basename(fileName)}` });
+            if (!selected) { return; }
+            if (selected.mode === undefined) {
+                this.fileModes.delete(fileName);
+            } else {
+                this.fileModes.set(fileName, selected.mode);
+            }
+            this.modeChangedEmitter.fire(this.mode);
+            await this.send();
+        }));
         this.subscriptions.push(commands.registerCommand('lean.roiMode.nothing',
             () => this.check(RoiMode.Nothing)));
         this.subscriptions.push(commands.registerCommand('lean.roiMode.visibleFiles',
             () => this.check(RoiMode.VisibleFiles)));
         this.subscriptions.push(commands.registerCommand('lean.roiMode.linesAndAbove',
             () => this.check(RoiMode.VisibleLinesAndAbove)));
+        this.subscriptions.push(commands.registerCommand('lean.roiMode.currentDeclaration',
+            () => this.check(RoiMode.CurrentDeclaration)));
         this.subscriptions.push(commands.registerCommand('lean.roiMode.openFiles',
             () => this.check(RoiMode.OpenFiles)));
         this.subscriptions.push(commands.registerCommand('lean.roiMode.projectFiles',
@@ -89,28 +141,103 @@ export class RoiManager implements Disposable {
 
     }
 
-    async compute(): Promise<FileRoi[]> {
-        let paths: string[];
+    /** The mode for `document`, as chosen for the file, from `lean.roiModeOverrides`, or the global mode. */
+    modeFor(document: TextDocument): RoiMode {
+        if (!languages.match(this.documentFilter, document)) { return this.mode; }
+        const fileMode = this.fileModes.get(document.fileName);
+        if (fileMode !== undefined) { return fileMode; }
+        const overrides = workspace.getConfiguration('lean').get<{[glob: string]: string}>('roiModeOverrides', {});
+        const folder = workspace.getWorkspaceFolder(document.uri);
+        for (const pattern of Object.keys(overrides)) {
+            const mode = parseRoiMode(overrides[pattern]);
+            if (mode !== undefined &&
+                    languages.match({ pattern: folder ? new RelativePattern(folder, pattern) : pattern }, document)) {
+                return mode;
+            }
+        }
+        return this.mode;
+    }
+
+    private openDocuments(server: Server): TextDocument[] {
+        return workspace.textDocuments.filter((d) => !d.isClosed && languages.match(this.documentFilter, d) &&
+            this.registry.serverFor(d.fileName) === server);
+    }
+
+    /** Whether some files of `server` use a different mode than the global one, or have pinned regions.
+     * The server only supports one mode at a time, and ignores the ranges in most modes, so we then send
+     * explicit line ranges for every file.
+     */
+    private needsExplicitRanges(server: Server): boolean {
+        return this.openDocuments(server).some((d) => this.modeFor(d) !== this.mode) ||
+            this.pins.fileNames.some((path) => this.registry.serverFor(path) === server);
+    }
+
+    /** Computes the region of interest for all files belonging to `server`. */
+    compute(server: Server): FileRoi[] {
+        const isManagedBy = (path: string) => this.registry.serverFor(path) === server;
+        const documents = this.openDocuments(server);
+        let paths = documents.map((d) => d.fileName);
         if (this.mode === RoiMode.ProjectFiles) {
-            const files = await workspace.findFiles('**/*.lean');
-            paths = files.map((f) => f.fsPath);
-        } else {
-            paths = workspace.textDocuments.filter((d) => languages.match(this.documentFilter, d))
-                                           .map((d) => d.fileName);
+            // The project checker adds the other files one by one in dependency order.
+            const released = this.projectChecker.releasedFiles(server);
+            paths = paths.concat(released.filter((path) => !paths.includes(path)));
         }
+        // Pinned regions are checked even if their file is not open.
+        paths = paths.concat(this.pins.fileNames.filter((path) => isManagedBy(path) && !paths.includes(path)));
 
-        const visibleRanges: {[fileName: string]: RoiRange[]} = {};
-        for (const editor of window.visibleTextEditors) {
-            if (languages.match(this.documentFilter, editor.document)) {
-                visibleRanges[editor.document.fileName] =
-                    editor.visibleRanges.map((r) => ({
-                        begin_line: r.start.line + 1,
-                        end_line: r.end.line + 1,
-                    }));
+        const ranges: {[fileName: string]: RoiRange[]} = {};
+        if (this.needsExplicitRanges(server)) {
+            if (this.mode === RoiMode.ProjectFiles) {
+                for (const path of this.projectChecker.releasedFiles(server)) { ranges[path] = [WHOLE_FILE]; }
+            }
+            for (const document of documents) {
+                ranges[document.fileName] = this.linesToCheck(document, this.modeFor(document));
+            }
+        } else if (this.mode === RoiMode.CurrentDeclaration) {
+            // Only the active editor has a current declaration, all other files are not checked.
+            const editor = window.activeTextEditor;
+            if (editor && languages.match(this.documentFilter, editor.document)) {
+                ranges[editor.document.fileName] =
+                    [declarationRange(editor.document, editor.selection.active.line)];
+            }
+        } else {
+            for (const editor of window.visibleTextEditors) {
+                if (languages.match(this.documentFilter, editor.document)) {
+                    ranges[editor.document.fileName] =
+                        editor.visibleRanges.map((r) => ({
+                            begin_line: r.start.line + 1,
+                            end_line: r.end.line + 1,
+                        }));
+                }
             }
         }
 
-        return paths.map((path) => ({file_name: path, ranges: visibleRanges[path] || []}));
+        return paths.map((path) => ({file_name: path, ranges: (ranges[path] || []).concat(this.pins.rangesFor(path))}));
+    }
+
+    /** The lines of `document` which `mode` checks, as ranges for the `visible-lines` checking mode. */
+    private linesToCheck(document: TextDocument, mode: RoiMode): RoiRange[] {
+        const editors = window.visibleTextEditors.filter((e) => e.document === document);
+        const visible = ([] as RoiRange[]).concat(...editors.map((e) => e.visibleRanges.map((r) => ({
+            begin_line: r.start.line + 1,
+            end_line: r.end.line + 1,
+        }))));
+        const wholeFile = { begin_line: 1, end_line: document.lineCount };
+        switch (mode) {
+            case RoiMode.Nothing: return [];
+            case RoiMode.VisibleLines: return visible;
+            case RoiMode.VisibleLinesAndAbove:
+                return visible.length ? [{ begin_line: 1, end_line: Math.max(...visible.map((r) => r.end_line)) }] : [];
+            case RoiMode.CurrentDeclaration: {
+                const editor = window.activeTextEditor;
+                if (!editor || editor.document !== document) { return []; }
+                const declaration = declarationRange(document, editor.selection.active.line);
+                return [{ begin_line: 1, end_line: declaration.end_line }];
+            }
+            case RoiMode.VisibleFiles: return editors.length ? [wholeFile] : [];
+            case RoiMode.OpenFiles: return [wholeFile];
+            case RoiMode.ProjectFiles: return [wholeFile];
+        }
     }
 
     modeString(): CheckingMode {
@@ -121,18 +248,29 @@ export class RoiManager implements Disposable {
             case RoiMode.VisibleLinesAndAbove: return 'visible-lines-and-above';
             case RoiMode.OpenFiles: return 'open-files';
             case RoiMode.ProjectFiles: return 'open-files';
+            case RoiMode.CurrentDeclaration: return 'visible-lines-and-above';
             default: throw new Error('unknown roi mode');
         }
     }
 
     async send(): Promise<void> {
-        const roi = await this.compute();
-        await this.server.roi(this.modeString(), roi);
+        await Promise.all(this.registry.servers.map((server) => this.sendTo(server)));
+    }
+
+    private async sendTo(server: Server): Promise<void> {
+        if (!server.alive()) { return; }
+        const roi = this.compute(server);
+        await server.from('roi').roi(this.needsExplicitRanges(server) ? 'visible-lines' : this.modeString(), roi);
     }
 
     async check(mode: RoiMode): Promise<void> {
         this.mode = mode;
         this.modeChangedEmitter.fire(mode);
+        if (mode === RoiMode.ProjectFiles) {
+            void this.projectChecker.start();
+        } else {
+            this.projectChecker.stop();
+        }
         await this.send();
     }
 
@@ -0,0 +1,151 @@
+import { RoiRange } from 'lean-client-js-node';
+import { commands, Disposable, DocumentFilter, Event, EventEmitter, ExtensionContext, languages, Memento,
+    OverviewRulerLane, Range, TextDocumentChangeEvent, TextDocumentContentChangeEvent, TextEditor,
+    TextEditorDecorationType, window, workspace } from 'vscode';
+
+/** Key of the pinned regions in the workspace state. */
+const PINS_KEY = 'lean.roiPins';
+
+/** Lines (1-based, inclusive) that should always be checked. */
+export interface PinnedRegion extends RoiRange {
+    fileName: string;
+}
+
+/** Parses `12-400` or `12`, as entered by the user. */
+function parseLines(input: string): RoiRange | undefined {
+    const m = /^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/.exec(input);
+    if (!m) { return undefined; }
+    const begin = parseInt(m[1], 10);
+    const end = m[2] ? parseInt(m[2], 10) : begin;
+    if (begin < 1 || end < begin) { return undefined; }
+    return { begin_line: begin, end_line: end };
+}
+
+/** Moves the lines of `region` to where they are after `change`.  Lines which are
+ * removed by the change are dropped from the region, but the region keeps at least one line.
+ */
+function shiftLines<T extends RoiRange>(region: T, change: TextDocumentContentChangeEvent): T {
+    const { start, end } = change.range;
+    const delta = change.text.split('\n').length - 1 - (end.line - start.line);
+    // 1-based line numbers after the change, for 0-based lines before it.
+    const moved = (line: number) =>
+        line < start.line ? line + 1 : line > end.line ? line + delta + 1 : Math.min(line, start.line) + 1;
+    const begin_line = moved(region.begin_line - 1);
+    // Lines inserted at the end of the region belong to it.
+    const end_line = region.end_line - 1 === end.line ? region.end_line + delta : moved(region.end_line - 1);
+    return { ...region, begin_line, end_line: Math.max(begin_line, end_line) };
+}
+
+/**
+ * Regions which are added to the region of interest, independent of the mode and
+ * of what is visible.  They are stored per workspace, and move with the text when lines
+ * are inserted or removed above them.
+ */
+export class RoiPins implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private decoration: TextEditorDecorationType;
+    private workspaceState: Memento;
+
+    private changedEmitter = new EventEmitter<void>();
+    /** Fires when a region has been pinned or unpinned. */
+    onDidChange: Event<void> = this.changedEmitter.event;
+
+    constructor(context: ExtensionContext, private documentFilter: DocumentFilter) {
+        this.workspaceState = context.workspaceState;
+        this.decoration = window.createTextEditorDecorationType({
+            overviewRulerLane: OverviewRulerLane.Left,
+            overviewRulerColor: 'rgba(0, 122, 204, 0.5)',
+            dark: {
+                gutterIconPath: context.asAbsolutePath('media/pinned-region-dark.svg'),
+            },
+            light: {
+                gutterIconPath: context.asAbsolutePath('media/pinned-region-light.svg'),
+            },
+            gutterIconSize: 'contain',
+        });
+
+        this.subscriptions.push(
+            this.decoration, this.changedEmitter,
+            commands.registerTextEditorCommand('lean.roi.pinLines', (editor) => this.pinLines(editor)),
+            commands.registerTextEditorCommand('lean.roi.unpinLines', (editor) => this.unpinLines(editor)),
+            commands.registerCommand('lean.roi.unpinAll', () => this.setPins([])),
+            window.onDidChangeVisibleTextEditors(() => this.updateDecorations()),
+            workspace.onDidChangeTextDocument((e) => this.moveWithText(e)),
+            this.onDidChange(() => this.updateDecorations()),
+        );
+        this.updateDecorations();
+    }
+
+    get pins(): PinnedRegion[] {
+        return this.workspaceState.get<PinnedRegion[]>(PINS_KEY, []);
+    }
+
+    /** The files with pinned regions. */
+    get fileNames(): string[] {
+        return [...new Set(this.pins.map((p) => p.fileName))];
+    }
+
+    rangesFor(fileName: string): RoiRange[] {
+        return this.pins.filter((p) => p.fileName === fileName)
+            .map(({ begin_line, end_line }) => ({ begin_line, end_line }));
+    }
+
+    private async setPins(pins: PinnedRegion[]) {
+        await this.workspaceState.update(PINS_KEY, pins);
+        this.changedEmitter.fire();
+    }
+
+    /** Asks which lines to pin, suggesting the selected ones. */
+    private async pinLines(editor: TextEditor) {
+        const { start, end } = editor.selection;
+        const input = await window.showInputBox({
+            prompt: 'Lines to keep checking, e.g. 1-400',
+            value: `${start.line + 1}-${end.line + 1}`,
+            validateInput: (value) => parseLines(value) ? null : 'Enter a line number or a range such as 1-400',
+        });
+        const lines = input && parseLines(input);
+        if (!lines) { return; }
+        await this.setPins(this.pins.concat([{ fileName: editor.document.fileName, ...lines }]));
+    }
+
+    /** Removes the pinned regions overlapping the selection. */
+    private async unpinLines(editor: TextEditor) {
+        const begin = editor.selection.start.line + 1;
+        const end = editor.selection.end.line + 1;
+        const pins = this.pins.filter((p) => p.fileName !== editor.document.fileName ||
+            p.end_line < begin || p.begin_line > end);
+        if (pins.length === this.pins.length) {
+            void window.showInformationMessage('There is no pinned region at the cursor.');
+            return;
+        }
+        await this.setPins(pins);
+    }
+
+    private async moveWithText(e: TextDocumentChangeEvent) {
+        const fileName = e.document.fileName;
+        if (!e.contentChanges.some((c) => c.range.start.line !== c.range.end.line || c.text.includes('\n')) ||
+                !this.pins.some((p) => p.fileName === fileName)) {
+            return;
+        }
+        // The changes do not overlap and are sorted from the end of the document, so each of them
+        // refers to lines before the changes preceding it.
+        const pins = this.pins.map((pin) => pin.fileName !== fileName ? pin :
+            e.contentChanges.reduce((region, change) => shiftLines(region, change), pin));
+        await this.setPins(pins);
+    }
+
+    private updateDecorations() {
+        for (const editor of window.visibleTextEditors) {
+            if (!languages.match(this.documentFilter, editor.document)) { continue; }
+            editor.setDecorations(this.decoration,
+                this.rangesFor(editor.document.fileName).map((r) => ({
+                    range: new Range(r.begin_line - 1, 0, r.end_line - 1, 0),
+                    hoverMessage: `Always checked (lines ${r.begin_line}-${r.end_line})`,
+                })));
+        }
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
@@ -1,12 +1,17 @@
-import { Location, Position, SymbolInformation, SymbolKind, Uri, WorkspaceSymbolProvider } from 'vscode';
-import { Server } from './server';
+import { SearchItem as LeanSearchItem } from 'lean-client-js-node';
+import { commands, Disposable, Location, Position, QuickPickItem, SymbolInformation, SymbolKind, Uri, window,
+    workspace, WorkspaceSymbolProvider } from 'vscode';
+import { LeanInputAbbreviator } from './input';
+import { ServerRegistry } from './registry';
 
 export class LeanWorkspaceSymbolProvider implements WorkspaceSymbolProvider {
-    constructor(private server: Server) {}
+    constructor(private registry: ServerRegistry) {}
 
     async provideWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
-        const response = await this.server.search(query);
-        return response.results
+        const responses = await Promise.all(this.registry.servers
+            .filter((server) => server.alive())
+            .map((server) => server.from('search').search(query)));
+        return [].concat(...responses.map((response) => response.results))
             .filter((item) => item.source && item.source.file &&
                 item.source.line && item.source.column)
             .map((item) => {
@@ -16,3 +21,70 @@ export class LeanWorkspaceSymbolProvider implements WorkspaceSymbolProvider {
             });
     }
 }
+
+interface SearchItem extends QuickPickItem { location: Location }
+
+/**
+ * Searches for declarations in a quick pick, which unlike the workspace symbol search
+ * supports Unicode input, e.g. typing `\le ` searches for `≤`.
+ */
+export class LeanDeclarationSearch implements Disposable {
+    private subscriptions: Disposable[] = [];
+
+    constructor(private registry: ServerRegistry, private abbreviator: LeanInputAbbreviator) {
+        this.subscriptions.push(commands.registerCommand('lean.searchDeclarations', () => this.show()));
+    }
+
+    private async search(query: string): Promise<SearchItem[]> {
+        const responses = await Promise.all(this.registry.servers
+            .filter((server) => server.alive())
+            .map((server) => server.from('search').search(query)));
+        return [].concat(...responses.map((response) => response.results))
+            .filter((item: LeanSearchItem) => item.source && item.source.file &&
+                item.source.line && item.source.column)
+            .map((item: LeanSearchItem) => ({
+                label: item.text,
+                description: item.type,
+                detail: `${workspace.asRelativePath(item.source.file)}:${item.source.line}`,
+                location: new Location(Uri.file(item.source.file),
+                    new Position(item.source.line - 1, item.source.column)),
+            }));
+    }
+
+    private show() {
+        const quickPick = window.createQuickPick<SearchItem>();
+        quickPick.placeholder = 'Search for declarations, e.g. nat.le_succ';
+        quickPick.matchOnDescription = true;
+        let searchCount = 0;
+        quickPick.onDidChangeValue(async (value) => {
+            if (this.abbreviator.enabled) {
+                // Quick picks do not tell us where the cursor is, so assume it is at the end.
+                const converted = this.abbreviator.engine.convertAt(value, value.length);
+                if (converted.text !== value) {
+                    // This fires another change event, which does the search.
+                    quickPick.value = converted.text;
+                    return;
+                }
+            }
+            const count = ++searchCount;
+            quickPick.busy = true;
+            const items = value ? await this.search(value).catch((): SearchItem[] => []) : [];
+            if (count !== searchCount) { return; }
+            quickPick.items = items;
+            quickPick.busy = false;
+        });
+        quickPick.onDidAccept(async () => {
+            const [item] = quickPick.selectedItems;
+            quickPick.hide();
+            if (item) {
+                await window.showTextDocument(item.location.uri, { selection: item.location.range });
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
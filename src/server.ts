@@ -1,13 +1,16 @@
+import * as child from 'child_process';
 import { existsSync } from 'fs';
-import * as hasbin from 'hasbin';
 import * as leanclient from 'lean-client-js-node';
-import { Event, Message, ProcessTransport, Task } from 'lean-client-js-node';
-import { homedir } from 'os';
-import { resolve } from 'path';
-import * as username from 'username';
-import { extensions, OutputChannel, TerminalOptions, window, workspace } from 'vscode';
+import { Connection, Event, Message, ProcessConnection, ProcessTransport, Request, Task } from 'lean-client-js-node';
+import { basename } from 'path';
+import * as readline from 'readline';
+import { OutputChannel, TerminalOptions, window, workspace } from 'vscode';
+import { PROJECT_CONFIG_FILE, readProjectConfig } from './projectconfig';
+import { resolveToolchain, Toolchain } from './toolchain';
+import { ProtocolTracer } from './trace';
 import { LowPassFilter } from './util';
-import { ServerStatus } from './shared';
+import { LeanCapabilities, ServerStatus } from './shared';
+import { capabilitiesOfVersion, detectLeanVersion } from './version';
 
 
 const MAX_MESSAGES = 2**13;
@@ -31,27 +34,109 @@ function truncateMessages(msgs: Message[]): Message[] {
     return msgs;
 }
 
+// Automatic restarts after a crash: the delay doubles with every crash,
+// and we give up after MAX_AUTO_RESTARTS crashes within AUTO_RESTART_WINDOW.
+const AUTO_RESTART_INITIAL_DELAY = 1000;
+const AUTO_RESTART_MAX_DELAY = 30000;
+const MAX_AUTO_RESTARTS = 5;
+const AUTO_RESTART_WINDOW = 5 * 60 * 1000;
+// How much of the stderr output we keep for crash reports.
+const MAX_STDERR_TAIL = 2**12;
+
+/** Limits for restarting the server on a single heavy file. */
+export interface TemporaryLimits {
+    fileName: string;
+    memoryLimit?: number;
+    timeLimit?: number;
+}
+
 // A global channel for storing the contents of stderr.
 let stderrOutput: OutputChannel;
+// A global channel for crash reports.
+let crashOutput: OutputChannel;
+
+/** A `ProcessTransport` which runs Lean in the environment of the toolchain.  The environment of
+ * `ProcessTransport` cannot be configured, so `connect` starts the process itself.
+ */
+class ToolchainTransport extends ProcessTransport {
+    constructor(private toolchain: Toolchain, workingDirectory: string, options: string[]) {
+        super(toolchain.leanExecutable, workingDirectory, options);
+    }
+
+    connect(): Connection {
+        const process = child.spawn(this.executablePath,
+            ['--server', ...this.options, `*${this.workingDirectory}*`],
+            { cwd: this.workingDirectory, env: this.toolchain.env });
+        const conn = new ProcessConnection(process);
+        process.stderr.on('data', (chunk: Buffer) => conn.error.fire({ error: 'stderr', chunk: chunk.toString() }));
+        readline.createInterface({
+            input: process.stdout,
+            terminal: false,
+        }).on('line', (line) => {
+            try {
+                conn.jsonMessage.fire(JSON.parse(line));
+            } catch (e) {
+                conn.error.fire({ error: 'connect', message: `cannot parse: ${line}` });
+            }
+        });
+        process.on('error', (e) => {
+            conn.alive = false;
+            conn.error.fire({ error: 'connect', reason: 'process-startup',
+                message: `Unable to start the Lean server process: ${e}` });
+        });
+        process.on('exit', (code, signal) => {
+            if (conn.alive) {
+                conn.alive = false;
+                const message = code ?
+                    `Server has stopped with error code ${code}.` :
+                    `Server has stopped due to signal ${signal}.`;
+                conn.error.fire({ error: 'connect', reason: 'process-exit', message });
+            }
+        });
+        return conn;
+    }
+}
 
 // A class for interacting with the Lean server protocol.
 export class Server extends leanclient.Server {
-    transport: ProcessTransport;
+    transport: ToolchainTransport;
+    toolchain: Toolchain;
     executablePath: string;
     hasLean: boolean = false;        // have we found a usable copy of Lean yet?
     workingDirectory: string;
     options: string[];
+    memoryLimit: number;
+    timeLimit: number;
+    /** Human-readable origin of each limit in effect, e.g. `settings`. */
+    limitSources: { memoryLimit: string; timeLimit: string };
+    /** Overrides for the limits that apply until the next manual restart. */
+    temporaryLimits?: TemporaryLimits;
+
+    /** The version reported by `lean --version`, undefined until it is known. */
+    version?: string;
+    capabilities: LeanCapabilities;
 
     statusChanged: LowPassFilter<ServerStatus>;
     restarted: Event<any>;
+    capabilitiesChanged: Event<LeanCapabilities>;
 
     messages: Message[];
 
-    constructor() {
+    /** Records the requests sent to this server, set by the registry. */
+    tracer?: ProtocolTracer;
+
+    private stderrTail: string = '';
+    private crashTimes: number[] = [];
+    private autoRestartTimer: NodeJS.Timer;
+
+    constructor(workingDirectory: string) {
         super(null); // TODO(gabriel): add support to lean-client-js
+        this.workingDirectory = workingDirectory;
         this.statusChanged = new LowPassFilter<ServerStatus>(300);
         this.restarted = new Event();
+        this.capabilitiesChanged = new Event();
         this.messages = [];
+        this.capabilities = capabilitiesOfVersion(undefined);
 
         this.attachEventHandlers();
     }
@@ -59,47 +144,39 @@ export class Server extends leanclient.Server {
     connect(): void {
         try {
             this.messages = [];
+            this.stderrTail = '';
 
             const config = workspace.getConfiguration('lean');
 
-            // TODO(gabriel): unset LEAN_PATH environment variable
-
-            this.executablePath = config.get('executablePath') || 'lean';
-            if(this.executablePath === 'lean') {
-              if(!hasbin.sync('lean')) {
-                // Let's try a little harder!
-                let elanLean = resolve(homedir(), '.elan', 'bin', 'lean');
-                if(existsSync(elanLean)) {
-                    this.executablePath = elanLean;
-                    this.hasLean = true;
-                } else if(process.platform === 'win32') {
-                  elanLean = resolve('C:', 'msys64', 'home', username.sync(),
-                    '.elan', 'bin', 'lean');
-                  if(existsSync(elanLean)) {
-                    this.executablePath = elanLean;
-                    this.hasLean = true;
-                  }
-                } else {
-                    this.hasLean = false;
-                }
-              } else {
-                this.hasLean = true;
-              }
-            }
-
-            this.workingDirectory = workspace.rootPath;
-            this.options = config.get('extraOptions') || [];
+            this.toolchain = resolveToolchain(this.workingDirectory);
+            this.executablePath = this.toolchain.leanExecutable;
+            this.hasLean = this.toolchain.hasLean;
+
+            // Settings can be overridden per project, and temporarily for a single file.
+            const projectConfig = readProjectConfig(this.workingDirectory) || {};
+            const tempLimits = this.temporaryLimits;
+            const pickLimit = (key: 'memoryLimit' | 'timeLimit'): [number, string] =>
+                tempLimits && tempLimits[key] !== undefined ?
+                    [tempLimits[key], `temporary, for ${basename(tempLimits.fileName)}`] :
+                projectConfig[key] !== undefined ? [projectConfig[key], PROJECT_CONFIG_FILE] :
+                [config.get<number>(key), 'settings'];
+            const [memoryLimit, memoryLimitSource] = pickLimit('memoryLimit');
+            const [timeLimit, timeLimitSource] = pickLimit('timeLimit');
+            this.memoryLimit = memoryLimit;
+            this.timeLimit = timeLimit;
+            this.limitSources = { memoryLimit: memoryLimitSource, timeLimit: timeLimitSource };
+
+            this.options = [...(projectConfig.extraOptions || config.get<string[]>('extraOptions') || [])];
 
             this.options.push('-M');
-            this.options.push('' + config.get('memoryLimit'));
+            this.options.push('' + this.memoryLimit);
             this.options.push('-T');
-            this.options.push('' + config.get('timeLimit'));
+            this.options.push('' + this.timeLimit);
 
-            const {extensionPath} = extensions.getExtension('jroesch.lean');
-            const executablePath = this.executablePath.replace('%extensionPath%', extensionPath + '/');
-            this.transport = new ProcessTransport(
-                executablePath, this.workingDirectory, this.options);
+            this.transport = new ToolchainTransport(
+                this.toolchain, this.workingDirectory, this.options);
             super.connect();
+            void this.detectVersion();
 
             this.restarted.fire(null);
 
@@ -108,6 +185,16 @@ export class Server extends leanclient.Server {
         }
     }
 
+    private async detectVersion() {
+        const toolchain = this.toolchain;
+        const version = await detectLeanVersion(toolchain);
+        // The server might have been restarted with a different toolchain in the meantime.
+        if (toolchain !== this.toolchain) { return; }
+        this.version = version;
+        this.capabilities = capabilitiesOfVersion(version);
+        this.capabilitiesChanged.fire(this.capabilities);
+    }
+
     private attachEventHandlers() {
         // HACK: limit number and size of messages, see
         // https://leanprover-community.github.io/archive/113488general/25177foldingproblemsproblem.html
@@ -120,6 +207,7 @@ export class Server extends leanclient.Server {
         this.error.on(async (e) => {
             switch (e.error) {
                 case 'stderr':
+                    this.stderrTail = (this.stderrTail + e.chunk).slice(-MAX_STDERR_TAIL);
                     stderrOutput.append(e.chunk);
                     stderrOutput.show();
                     break;
@@ -130,6 +218,10 @@ export class Server extends leanclient.Server {
                         // stderrOutput.show();
                         break;
                     }
+                    if (e.reason === 'process-exit') {
+                        this.writeCrashReport(e.message);
+                        if (this.scheduleAutoRestart()) { break; }
+                    }
                     const msg = e.message.startsWith('Unable to start') ?
                         ` --- The lean.executablePath "${this.executablePath}" ` +
                         'may be incorrect, make sure it is a valid Lean executable' : '';
@@ -161,13 +253,111 @@ export class Server extends leanclient.Server {
             }, curTasks.tasks.length === 0));
     }
 
+    /** The server, with its requests tagged with the part of the extension that sends them for the
+     * protocol trace, e.g. `server.from('hover').info(...)`.
+     */
+    from(origin: string): this {
+        // Everything but `send` is looked up on the server itself.
+        const tagged = Object.create(this) as this;
+        tagged.send = (req: Request) => this.sendFrom(origin, req);
+        return tagged;
+    }
+
+    send(req: Request): Promise<any> {
+        return this.sendFrom('unknown', req);
+    }
+
+    /** Sends `req`, recording it in the protocol trace as sent by `origin`. */
+    sendFrom(origin: string, req: Request): Promise<any> {
+        const response = super.send(req);
+        return this.tracer ? this.tracer.trace(this.workingDirectory, origin, req, response) : response;
+    }
+
     restart(): void {
+        this.crashTimes = [];
+        this.temporaryLimits = undefined;
         super.restart();
         stderrOutput.appendLine('----- user triggered restart -----');
     }
 
+    restartWithTemporaryLimits(limits: TemporaryLimits): void {
+        this.crashTimes = [];
+        this.temporaryLimits = limits;
+        super.restart();
+        stderrOutput.appendLine(`----- restart with temporary limits for ${limits.fileName} -----`);
+    }
+
+    /** Asks the user for higher limits to check `fileName` with, and restarts the server using them. */
+    async promptTemporaryLimits(fileName: string): Promise<void> {
+        const askLimit = async (prompt: string, current: number) => {
+            const value = await window.showInputBox({
+                prompt,
+                value: '' + current,
+                validateInput: (v) => /^\d+$/.test(v) ? null : 'Please enter a positive number.',
+            });
+            return value === undefined ? undefined : parseInt(value, 10);
+        };
+        const memoryLimit = await askLimit(
+            `Memory limit (-M, in megabytes) for ${basename(fileName)}`, this.memoryLimit);
+        if (memoryLimit === undefined) { return; }
+        const timeLimit = await askLimit(
+            `Time limit (-T) for ${basename(fileName)}`, this.timeLimit);
+        if (timeLimit === undefined) { return; }
+        this.restartWithTemporaryLimits({ fileName, memoryLimit, timeLimit });
+    }
+
+    dispose(): void {
+        if (this.autoRestartTimer) {
+            clearTimeout(this.autoRestartTimer);
+            this.autoRestartTimer = null;
+        }
+        super.dispose();
+    }
+
+    /** Restarts the server after a crash, unless it has crashed too often recently.
+     * Restarting fires `restarted`, which makes the other components re-sync the
+     * open files and resend the region of interest.
+     * Returns false if the user needs to restart the server manually.
+     */
+    private scheduleAutoRestart(): boolean {
+        if (!workspace.getConfiguration('lean').get('autoRestart', true)) { return false; }
+
+        const now = Date.now();
+        this.crashTimes = this.crashTimes.filter((t) => now - t < AUTO_RESTART_WINDOW);
+        if (this.crashTimes.length >= MAX_AUTO_RESTARTS) {
+            crashOutput.appendLine(`Not restarting automatically: the server crashed ${this.crashTimes.length + 1} times ` +
+                `within ${AUTO_RESTART_WINDOW / 60000} minutes.\n`);
+            return false;
+        }
+
+        const delay = Math.min(AUTO_RESTART_INITIAL_DELAY * 2**this.crashTimes.length, AUTO_RESTART_MAX_DELAY);
+        this.crashTimes.push(now);
+        crashOutput.appendLine(`Restarting automatically in ${delay / 1000}s ` +
+            `(${this.crashTimes.length} of at most ${MAX_AUTO_RESTARTS} within ${AUTO_RESTART_WINDOW / 60000} minutes).\n`);
+        this.autoRestartTimer = setTimeout(() => {
+            this.autoRestartTimer = null;
+            super.restart();
+            stderrOutput.appendLine('----- automatic restart after crash -----');
+        }, delay);
+        return true;
+    }
+
+    private writeCrashReport(reason: string) {
+        crashOutput = crashOutput || window.createOutputChannel('Lean: Crash Reports');
+        const activeEditor = window.activeTextEditor;
+        crashOutput.appendLine(`----- Lean server crashed at ${new Date().toISOString()} -----`);
+        crashOutput.appendLine(`Reason: ${reason}`);
+        crashOutput.appendLine(`Project: ${this.workingDirectory}`);
+        crashOutput.appendLine(`Executable: ${this.executablePath} ${this.options.join(' ')}`);
+        crashOutput.appendLine(`Memory limit (-M): ${this.memoryLimit} MB`);
+        crashOutput.appendLine(`Time limit (-T): ${this.timeLimit}`);
+        crashOutput.appendLine(`Active file: ${activeEditor ? activeEditor.document.fileName : '(none)'}`);
+        crashOutput.appendLine('Last stderr output:');
+        crashOutput.appendLine(this.stderrTail || '(none)');
+    }
+
     async installElan(): Promise<void> {
-        if(this.executablePath !== 'lean') {
+        if(workspace.getConfiguration('lean').get('executablePath') !== 'lean') {
             await window.showErrorMessage(
               "It looks like you've modified the `lean.executablePath` user setting.\n" +
               'Please change it back to an empty string before installing elan.');
@@ -26,6 +26,18 @@ export interface ServerStatus {
     tasks: Task[];
 }
 
+/** Features that depend on the version of the Lean server. */
+export interface LeanCapabilities {
+    /** The server can answer several `info` requests at the same time. */
+    concurrentInfoRequests: boolean;
+    /** The server sends widgets for the tactic state. */
+    widgets: boolean;
+    /** Widget events return effects instead of text to insert (Lean >= 3.17). */
+    widgetEffects: boolean;
+    /** The server supports `{! !}` hole commands. */
+    holeCommands: boolean;
+}
+
 export interface InfoProps extends Location {
     widget?: string; // [note] vscode crashes if the widget is sent as a deeply nested json object.
     goalState?: string;
@@ -46,12 +58,19 @@ export interface Config {
     infoViewTacticStateFilters: InfoViewTacticStateFilter[];
     infoViewAllErrorsOnLine: boolean;
     infoViewAutoOpenShowGoal: boolean;
+    /** Unicode input settings, for the text fields of widgets. */
+    inputEnabled: boolean;
+    inputLeader: string;
+    inputCustomTranslations: { [abbrev: string]: string | null };
 }
 export const defaultConfig: Config = {
     filterIndex: -1,
     infoViewTacticStateFilters: [],
     infoViewAllErrorsOnLine: true,
     infoViewAutoOpenShowGoal: true,
+    inputEnabled: true,
+    inputLeader: '\\',
+    inputCustomTranslations: {},
 }
 
 /** The root state of the infoview */
@@ -109,5 +128,6 @@ export type ToInfoviewMessage =
     | { command: 'on_config_change'; config: Partial<Config>}
     | { command: 'all_messages'; messages: Message[]}
     | { command: 'toggle_all_messages' }
+    | { command: 'capabilities'; capabilities: LeanCapabilities }
     | SyncPinMessage
     | { command: 'pause' | 'continue' | 'toggle_updating' | 'copy_to_comment' | 'toggle_pin' | 'restart'}
\ No newline at end of file
@@ -0,0 +1,301 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { commands, Disposable, EventEmitter, ExtensionContext, QuickPickItem, Range, TreeDataProvider, TreeItem,
+    TreeItemCollapsibleState, Uri, window, workspace } from 'vscode';
+import { declarationName, declarationStart } from './declarations';
+import { ServerRegistry } from './registry';
+import { Token, tokenize } from './tokenizer';
+import { mediaIcon } from './util';
+import { FileCache, WorkspaceFiles } from './workspacefiles';
+
+/** Time to wait for further changes before scanning again. */
+const UPDATE_DELAY = 500;
+
+/** An occurrence of `sorry` in the text. Lines and columns are 0-based. */
+export interface SorryOccurrence {
+    fileName: string;
+    line: number;
+    column: number;
+    /** The line containing the `sorry`, for display. */
+    text: string;
+}
+
+/** A declaration using `sorry`, or an axiom. */
+export interface TrackedDeclaration {
+    fileName: string;
+    kind: 'sorry' | 'axiom';
+    name: string;
+    /** 0-based line of the declaration. */
+    line: number;
+    /** Empty if Lean reports a `sorry` which does not appear in the text, e.g. one inserted for an error. */
+    sorries: SorryOccurrence[];
+}
+
+export interface FileSorries {
+    fileName: string;
+    declarations: TrackedDeclaration[];
+}
+
+/** Replaces comments with spaces, keeping the line and column numbers of the remaining text. */
+function blankComments(text: string, tokens: Token[]): string {
+    let blanked = '';
+    let offset = 0;
+    for (const token of tokens) {
+        if (token.kind !== 'comment') { continue; }
+        blanked += text.slice(offset, token.offset) + token.text.replace(/[^\n]/g, ' ');
+        offset = token.offset + token.text.length;
+    }
+    return blanked + text.slice(offset);
+}
+
+/** The number of `sorry`s counted for a declaration, Lean reports one even if we cannot find it in the text. */
+function sorryCount(decl: TrackedDeclaration): number {
+    return decl.kind === 'sorry' ? Math.max(decl.sorries.length, 1) : 0;
+}
+
+function plural(n: number, singular: string, pluralForm = singular + 's'): string {
+    return `${n} ${n === 1 ? singular : pluralForm}`;
+}
+
+/**
+ * Finds the declarations of a file which use `sorry` or which are axioms.  `sorryWarnings` are the
+ * 0-based lines of Lean's `declaration uses 'sorry'` warnings, which also find `sorry`s which are
+ * not in the text; the text is scanned as well for the parts of the file Lean has not checked.
+ */
+function scanFile(fileName: string, text: string, sorryWarnings: number[]): FileSorries {
+    const rawLines = text.split('\n');
+    const tokens = tokenize(text);
+    const lines = blankComments(text, tokens).split('\n');
+    const declarations = new Map<number, TrackedDeclaration>();
+    const declarationAt = (line: number, kind: 'sorry' | 'axiom') => {
+        let begin = Math.min(line, lines.length - 1);
+        while (begin > 0 && !declarationStart.test(lines[begin])) { begin--; }
+        let decl = declarations.get(begin);
+        if (!decl) {
+            declarations.set(begin, decl = { fileName, kind, name: declarationName(lines[begin] || ''),
+                line: begin, sorries: [] });
+        }
+        return decl;
+    };
+
+    for (let line = 0; line < lines.length; line++) {
+        if (/^((private|protected)\s+)?axiom\b/.test(lines[line])) {
+            declarationAt(line, 'axiom');
+        }
+    }
+    // Only `sorry`s which are not in comments or strings.
+    for (const { kind, text: tokenText, line, column } of tokens) {
+        if (kind === 'identifier' && tokenText === 'sorry') {
+            declarationAt(line, 'sorry').sorries.push({ fileName, line, column, text: rawLines[line].trim() });
+        }
+    }
+    for (const line of sorryWarnings) {
+        declarationAt(line, 'sorry');
+    }
+    return {
+        fileName,
+        declarations: [...declarations.values()].sort((a, b) => a.line - b.line),
+    };
+}
+
+type SorryItem = 'summary' | FileSorries | TrackedDeclaration | SorryOccurrence;
+
+/**
+ * Lists the `sorry`s and axioms of the workspace in the "Lean Sorries" view.
+ *
+ * Files which Lean has checked use the `declaration uses 'sorry'` warnings,
+ * all other files are only scanned for `sorry`.  The files are only scanned
+ * once the view has been opened.
+ */
+export class SorryView implements TreeDataProvider<SorryItem>, Disposable {
+    private subscriptions: Disposable[] = [];
+    private changedEmitter = new EventEmitter<SorryItem | undefined>();
+    onDidChangeTreeData = this.changedEmitter.event;
+
+    /** Whether the view has been opened, only then the files are scanned. */
+    private opened = false;
+    private scans: FileCache<FileSorries | undefined>;
+    private files: FileSorries[] = [];
+    private updateTimer?: NodeJS.Timer;
+    private updateCount = 0;
+
+    constructor(private registry: ServerRegistry, private workspaceFiles: WorkspaceFiles,
+                private context: ExtensionContext) {
+        this.scans = new FileCache(workspaceFiles);
+        this.subscriptions.push(
+            this.changedEmitter,
+            window.registerTreeDataProvider('leanSorries', this),
+            registry.onDidChangeMessages(() => this.scheduleUpdate()),
+            workspace.onDidChangeTextDocument((e) => {
+                if (e.document.languageId === 'lean') { this.scheduleUpdate(); }
+            }),
+            workspaceFiles.onDidChangeFile(() => this.scheduleUpdate()),
+            commands.registerCommand('_lean.sorries.reveal', (fileName: string, line: number, column: number) =>
+                this.reveal(fileName, line, column)),
+            commands.registerCommand('lean.sorries.export', () => this.export()),
+        );
+        void commands.executeCommand('setContext', 'lean.sorries', true);
+    }
+
+    private scheduleUpdate() {
+        if (!this.opened) { return; }
+        if (this.updateTimer) { clearTimeout(this.updateTimer); }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            void this.update();
+        }, UPDATE_DELAY);
+    }
+
+    private async update() {
+        const updateCount = ++this.updateCount;
+        this.opened = true;
+
+        const warnings = new Map<string, number[]>();
+        for (const m of this.registry.messages) {
+            if (m.severity === 'warning' && m.text === 'declaration uses \'sorry\'') {
+                warnings.set(m.file_name, (warnings.get(m.file_name) || []).concat([Math.max(m.pos_line - 1, 0)]));
+            }
+        }
+        const fileNames = new Set([...await this.workspaceFiles.leanFiles(), ...warnings.keys()]);
+
+        const files = await Promise.all([...fileNames].map((fileName) => {
+            // Only files which were edited or have new warnings are scanned again.
+            const lines = warnings.get(fileName) || [];
+            return this.scans.get(fileName, (text) => text === undefined ? undefined : scanFile(fileName, text, lines),
+                lines.join(','));
+        }));
+        if (updateCount !== this.updateCount) { return; }
+        this.files = files.filter((f) => f && f.declarations.length)
+            .sort((a, b) => a.fileName.localeCompare(b.fileName));
+        this.changedEmitter.fire(undefined);
+    }
+
+    getChildren(element?: SorryItem): SorryItem[] {
+        if (!element) {
+            if (!this.opened) { void this.update(); }
+            return ['summary' as SorryItem].concat(this.files);
+        } else if (element === 'summary') {
+            return [];
+        } else if ('declarations' in element) {
+            return element.declarations;
+        } else if ('sorries' in element && element.sorries.length > 1) {
+            return element.sorries;
+        }
+        return [];
+    }
+
+    getTreeItem(element: SorryItem): TreeItem {
+        if (element === 'summary') {
+            const declarations = [].concat(...this.files.map((f) => f.declarations)) as TrackedDeclaration[];
+            const sorries = declarations.reduce((n, d) => n + sorryCount(d), 0);
+            const axioms = declarations.filter((d) => d.kind === 'axiom').length;
+            const summary = new TreeItem(this.opened ?
+                `${plural(sorries, 'sorry', 'sorries')} in ${plural(declarations.length - axioms, 'declaration')}` :
+                'Scanning files...');
+            summary.description = [
+                axioms && plural(axioms, 'axiom'),
+                this.files.length && `in ${plural(this.files.length, 'file')}`,
+            ].filter((s) => s).join(', ');
+            return summary;
+        } else if ('declarations' in element) {
+            const item = new TreeItem(workspace.asRelativePath(element.fileName), TreeItemCollapsibleState.Collapsed);
+            const sorries = element.declarations.reduce((n, d) => n + sorryCount(d), 0);
+            const axioms = element.declarations.filter((d) => d.kind === 'axiom').length;
+            item.description = [
+                sorries && plural(sorries, 'sorry', 'sorries'),
+                axioms && plural(axioms, 'axiom'),
+            ].filter((s) => s).join(', ');
+            item.resourceUri = Uri.file(element.fileName);
+            item.tooltip = element.fileName;
+            return item;
+        } else if ('sorries' in element) {
+            const item = new TreeItem(element.name, element.sorries.length > 1 ?
+                TreeItemCollapsibleState.Collapsed : TreeItemCollapsibleState.None);
+            item.description = element.kind === 'axiom' ? 'axiom' :
+                plural(sorryCount(element), 'sorry', 'sorries');
+            item.iconPath = mediaIcon(this.context, element.kind === 'axiom' ? 'axiom' : 'warning');
+            const target = element.sorries.length === 1 ? element.sorries[0] : element;
+            item.command = {
+                command: '_lean.sorries.reveal',
+                title: 'Go to declaration',
+                arguments: [element.fileName, target.line, 'column' in target ? target.column : 0],
+            };
+            return item;
+        } else {
+            const item = new TreeItem(`line ${element.line + 1}`);
+            item.description = element.text;
+            item.command = {
+                command: '_lean.sorries.reveal',
+                title: 'Go to sorry',
+                arguments: [element.fileName, element.line, element.column],
+            };
+            return item;
+        }
+    }
+
+    private async reveal(fileName: string, line: number, column: number) {
+        await window.showTextDocument(Uri.file(fileName), { selection: new Range(line, column, line, column) });
+    }
+
+    private toJson(): string {
+        return JSON.stringify({
+            generated: new Date().toISOString(),
+            sorries: this.files.reduce((n, f) => n + f.declarations.reduce((k, d) => k + sorryCount(d), 0), 0),
+            files: this.files.map((f) => ({
+                file: workspace.asRelativePath(f.fileName),
+                declarations: f.declarations.map((d) => ({
+                    name: d.name,
+                    kind: d.kind,
+                    line: d.line + 1,
+                    sorries: sorryCount(d),
+                    sorryLines: d.sorries.map((s) => s.line + 1),
+                })),
+            })),
+        }, null, 2) + '\n';
+    }
+
+    private toMarkdown(): string {
+        const declarations = [].concat(...this.files.map((f) => f.declarations)) as TrackedDeclaration[];
+        const sorries = declarations.reduce((n, d) => n + sorryCount(d), 0);
+        const axioms = declarations.filter((d) => d.kind === 'axiom').length;
+        const lines = [
+            '# Sorries',
+            '',
+            `${plural(sorries, 'sorry', 'sorries')} in ${plural(declarations.length - axioms, 'declaration')}` +
+                ` and ${plural(axioms, 'axiom')}, as of ${new Date().toLocaleString()}.`,
+            '',
+            '| File | Declaration | Sorries |',
+            '| --- | --- | --- |',
+        ];
+        for (const d of declarations) {
+            lines.push(`| ${workspace.asRelativePath(d.fileName)}:${d.line + 1} | \`${d.name}\` | ` +
+                `${d.kind === 'axiom' ? 'axiom' : sorryCount(d)} |`);
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    /** Saves a summary of the view as JSON or Markdown, e.g. for progress reports. */
+    private async export() {
+        if (!this.opened) { await this.update(); }
+        interface FormatItem extends QuickPickItem { extension: string; contents: () => string }
+        const format = await window.showQuickPick<FormatItem>([
+            { label: 'Markdown', description: 'a table of all declarations', extension: 'md',
+                contents: () => this.toMarkdown() },
+            { label: 'JSON', description: 'for further processing', extension: 'json',
+                contents: () => this.toJson() },
+        ], { placeHolder: 'Export the sorries as' });
+        if (!format) { return; }
+        const folder = workspace.workspaceFolders && workspace.workspaceFolders[0];
+        const uri = await window.showSaveDialog({
+            defaultUri: folder && Uri.file(path.join(folder.uri.fsPath, `sorries.${format.extension}`)),
+            filters: { [format.label]: [format.extension] },
+        });
+        if (!uri) { return; }
+        await fs.promises.writeFile(uri.fsPath, format.contents());
+    }
+
+    dispose(): void {
+        if (this.updateTimer) { clearTimeout(this.updateTimer); }
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
@@ -1,4 +1,5 @@
 import { Disposable, StatusBarAlignment, StatusBarItem, window } from 'vscode';
+import { ServerRegistry } from './registry';
 import { RoiManager, RoiMode } from './roi';
 import { Server } from './server';
 
@@ -8,27 +9,32 @@ export class LeanStatusBarItem implements Disposable {
 
     private subscriptions: Disposable[] = [];
 
-    constructor(private server: Server, private roiManager: RoiManager) {
+    constructor(private registry: ServerRegistry, private roiManager: RoiManager) {
         this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left, 10);
 
         this.subscriptions.push(
-            server.restarted.on(() => this.update()),
-            server.statusChanged.on(() => this.update()),
+            registry.onDidRestart(() => this.update()),
+            registry.onDidChangeStatus(() => this.update()),
+            registry.onDidChangeCapabilities(() => this.update()),
+            window.onDidChangeActiveTextEditor(() => this.update()),
         );
         if (roiManager) {
             this.subscriptions.push(roiManager.onModeChanged(() => this.update()));
             this.statusBarItem.command = 'lean.roiMode.select';
         }
 
-        if (this.server.alive()) {
+        if (registry.servers.some((server) => server.alive())) {
             this.update();
         }
     }
 
     update(): void {
-        let text = 'Lean: ';
+        const server = this.registry.activeServer();
+        if (!server) { return; }
 
-        const serverStatus = this.server.statusChanged.currentValue;
+        let text = server.version ? `Lean ${server.version}: ` : 'Lean: ';
+
+        const serverStatus = server.statusChanged.currentValue;
         if (serverStatus && serverStatus.isRunning) {
             text += `$(sync) ${serverStatus.numberOfTasks}`;
         } else if (serverStatus && serverStatus.stopped) {
@@ -37,13 +43,17 @@ export class LeanStatusBarItem implements Disposable {
             text += '$(check)';
         }
 
-        switch (this.roiManager && this.roiManager.mode) {
+        // The mode of the active file, which may differ from the global one.
+        const editor = window.activeTextEditor;
+        const mode = this.roiManager && (editor ? this.roiManager.modeFor(editor.document) : this.roiManager.mode);
+        switch (mode) {
             case RoiMode.Nothing: text += ' (checking nothing)'; break;
             case RoiMode.VisibleLines: text += ' (checking visible lines)'; break;
             case RoiMode.VisibleLinesAndAbove: text += ' (checking visible lines and above)'; break;
             case RoiMode.VisibleFiles: text += ' (checking visible files)'; break;
             case RoiMode.OpenFiles: text += ' (checking open files)'; break;
             case RoiMode.ProjectFiles: text += ' (checking project files)'; break;
+            case RoiMode.CurrentDeclaration: text += ' (checking current declaration)'; break;
         }
 
         if (!this.shown) {
@@ -51,6 +61,23 @@ export class LeanStatusBarItem implements Disposable {
             this.shown = true;
         }
         this.statusBarItem.text = text;
+        this.statusBarItem.tooltip = this.tooltip(server);
+    }
+
+    /** Shows which project and Lean version the server belongs to and which limits are in effect. */
+    private tooltip(server: Server): string {
+        const lines = [`Project: ${server.workingDirectory || '(none)'}`];
+        if (server.version) {
+            const toolchain = server.toolchain && server.toolchain.name;
+            lines.push(`Version: ${server.version}${toolchain ? ` (${toolchain})` : ''}`);
+        }
+        if (server.limitSources) {
+            lines.push(
+                `Memory limit (-M): ${server.memoryLimit} MB (${server.limitSources.memoryLimit})`,
+                `Time limit (-T): ${server.timeLimit} (${server.limitSources.timeLimit})`,
+                `Options: ${server.options.join(' ')}`);
+        }
+        return lines.join('\n');
     }
 
     dispose(): void {
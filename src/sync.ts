@@ -1,41 +1,162 @@
-import { Disposable, DocumentFilter, languages, TextDocument, workspace } from 'vscode';
+import { createHash } from 'crypto';
+import { Disposable, DocumentFilter, Event, EventEmitter, languages, TextDocument, workspace } from 'vscode';
+import { ServerRegistry } from './registry';
 import { Server } from './server';
 
+export interface DocumentSyncedEvent {
+    fileName: string;
+    /** The version of the document that the server now knows about. */
+    version: number;
+}
+
+interface SyncState {
+    /** Hash of the text last sent to the server. */
+    hash?: string;
+    /** Version of the document last sent to the server. */
+    version?: number;
+    /** Resolves once the server has acknowledged the last sync request. */
+    pending: Promise<void>;
+    /** Set iff a sync is scheduled but has not been sent yet. */
+    timer?: NodeJS.Timer;
+}
+
+function hashText(text: string): string {
+    return createHash('sha1').update(text).digest('hex');
+}
+
 export class LeanSyncService implements Disposable {
     private subscriptions: Disposable[] = [];
     // The sync service starts automatically starts
     // the server when it sees a *.lean file.
-    private didAutoStartServer = false;
+    private didAutoStartServer = new Set<Server>();
+
+    private states = new Map<string, SyncState>();
+
+    private syncedEmitter = new EventEmitter<DocumentSyncedEvent>();
+    /** Fires whenever the server has received a new version of a document. */
+    onDidSync: Event<DocumentSyncedEvent> = this.syncedEmitter.event;
 
-    constructor(private server: Server, private documentFilter: DocumentFilter) {
+    constructor(private registry: ServerRegistry, private documentFilter: DocumentFilter) {
+        this.subscriptions.push(this.syncedEmitter);
         this.subscriptions.push(workspace.onDidChangeTextDocument(
-            (ev) => this.syncDoc(ev.document)));
+            (ev) => this.scheduleSync(ev.document)));
         this.subscriptions.push(workspace.onDidOpenTextDocument(
             (ev) => this.syncDoc(ev)));
-
-        // TODO(gabriel): unload files from server
-        // this.subscriptions.push(workspace.onDidCloseTextDocument(???));
+        this.subscriptions.push(workspace.onDidCloseTextDocument(
+            (ev) => this.unloadDoc(ev)));
 
         // Sync files that are already open.
         this.syncAll();
 
-        this.subscriptions.push(this.server.restarted.on(() => this.syncAll()));
+        // A restarted server has forgotten everything we sent to it.
+        this.subscriptions.push(this.registry.onDidRestart((server) => this.syncAll(server, true)));
+    }
+
+    /** Syncs all open files, or only those belonging to `server` if given. */
+    private syncAll(server?: Server, force?: boolean) {
+        workspace.textDocuments.forEach((doc) => {
+            if (!server || this.isManagedBy(doc, server)) {
+                void this.syncDoc(doc, force);
+            }
+        });
+    }
+
+    private isManagedBy(doc: TextDocument, server: Server): boolean {
+        return languages.match(this.documentFilter, doc) &&
+            this.registry.serverFor(doc.fileName) === server;
+    }
+
+    private getState(fileName: string): SyncState {
+        let state = this.states.get(fileName);
+        if (!state) {
+            this.states.set(fileName, state = { pending: Promise.resolve() });
+        }
+        return state;
+    }
+
+    /** Coalesces rapid edits by waiting for `lean.syncDebounce` milliseconds before sending them. */
+    private scheduleSync(doc: TextDocument) {
+        if (!languages.match(this.documentFilter, doc)) { return; }
+        const delay = workspace.getConfiguration('lean').get('syncDebounce', 200);
+        if (delay <= 0) {
+            void this.syncDoc(doc);
+            return;
+        }
+        const state = this.getState(doc.fileName);
+        if (state.timer) { clearTimeout(state.timer); }
+        state.timer = setTimeout(() => {
+            state.timer = null;
+            void this.syncDoc(doc);
+        }, delay);
+    }
+
+    private async syncDoc(doc: TextDocument, force?: boolean) {
+        if (!languages.match(this.documentFilter, doc)) { return; }
+        const state = this.getState(doc.fileName);
+        if (state.timer) {
+            clearTimeout(state.timer);
+            state.timer = null;
+        }
+
+        const server = this.registry.serverFor(doc.fileName);
+        if (!this.didAutoStartServer.has(server) && !server.alive()) {
+            this.didAutoStartServer.add(server);
+            server.connect();
+        }
+
+        const version = doc.version;
+        const text = doc.getText();
+        const hash = hashText(text);
+        if (force || hash !== state.hash) {
+            state.hash = hash;
+            state.pending = server.from('sync').sync(doc.fileName, text).then(() => {}, () => {
+                // Make sure we send the file again next time.
+                if (state.hash === hash) { state.hash = undefined; }
+            });
+        }
+        state.version = version;
+        await state.pending;
+        if (state.version === version) {
+            this.syncedEmitter.fire({ fileName: doc.fileName, version });
+        }
     }
 
-    private syncAll() {
-        workspace.textDocuments.forEach((doc) => this.syncDoc(doc));
+    /** Resolves once the current version of `doc` has been sent to the server. */
+    async whenSynced(doc: TextDocument): Promise<void> {
+        const state = this.states.get(doc.fileName);
+        if (!state || state.timer || state.version !== doc.version) {
+            await this.syncDoc(doc);
+        } else {
+            await state.pending;
+        }
     }
 
-    private async syncDoc(doc: TextDocument) {
+    /** Reverts the server's view of a closed file to the contents on disk. */
+    private async unloadDoc(doc: TextDocument) {
         if (!languages.match(this.documentFilter, doc)) { return; }
-        if (!this.didAutoStartServer && !this.server.alive()) {
-            this.didAutoStartServer = true;
-            this.server.connect();
+        const state = this.states.get(doc.fileName);
+        if (state && state.timer) { clearTimeout(state.timer); }
+        this.states.delete(doc.fileName);
+
+        const server = this.registry.serverFor(doc.fileName);
+        if (!server.alive()) { return; }
+        // Untitled and deleted files have no contents on disk, we drop them by syncing an empty file.
+        let contents = '';
+        if (!doc.isUntitled) {
+            try {
+                contents = Buffer.from(await workspace.fs.readFile(doc.uri)).toString('utf8');
+            } catch (e) {}
         }
-        await this.server.sync(doc.fileName, doc.getText());
+        // The file may have been opened again while we were reading it, then the editor's text counts.
+        if (this.states.has(doc.fileName)) { return; }
+        // A server which has died in the meantime will not know the file when it is restarted.
+        await server.from('sync').sync(doc.fileName, contents).catch(() => {});
     }
 
     dispose(): void {
+        for (const state of this.states.values()) {
+            if (state.timer) { clearTimeout(state.timer); }
+        }
         for (const s of this.subscriptions) { s.dispose(); }
     }
 }
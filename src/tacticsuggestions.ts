@@ -1,16 +1,19 @@
 import { Message } from 'lean-client-js-node';
 import { CodeActionContext, CodeActionProvider, Command, commands,
     DiagnosticSeverity, Disposable, DocumentSelector, languages,
-    Position, Range, Selection, TextDocument, TextEditor, Uri, window } from 'vscode';
+    Position, QuickPickItem, Range, Selection, TextDocument, TextEditor, TextEditorDecorationType,
+    TextEditorRevealType, ThemeColor, Uri, window, workspace, WorkspaceEdit } from 'vscode';
 import { InfoProvider } from './infoview';
-import { Server } from './server';
+import { ServerRegistry } from './registry';
+import { tacticEnd } from './tokenizer';
 import { regexGM, magicWord, regexM } from './trythis';
 
 /** Pastes suggestions provided by tactics such as `squeeze_simp` */
 export class TacticSuggestions implements Disposable, CodeActionProvider {
     private subscriptions: Disposable[] = [];
+    private previewDecoration: TextEditorDecorationType;
 
-    constructor(private server: Server, infoView: InfoProvider, private leanDocs: DocumentSelector) {
+    constructor(private registry: ServerRegistry, infoView: InfoProvider, private leanDocs: DocumentSelector) {
 
         const commandHandler = async (textEditor: TextEditor) => {
             const msg = this.findSelectedMessage(textEditor);
@@ -30,6 +33,16 @@ export class TacticSuggestions implements Disposable, CodeActionProvider {
 
         this.subscriptions.push(
             commands.registerTextEditorCommand('lean.pasteTacticSuggestion', commandHandler),
+            commands.registerTextEditorCommand('lean.pasteAllTacticSuggestions',
+                (textEditor) => this.pasteAllIntoEditor(textEditor)),
+            this.previewDecoration = window.createTextEditorDecorationType({
+                textDecoration: 'line-through',
+                opacity: '0.6',
+                after: {
+                    backgroundColor: new ThemeColor('diffEditor.insertedTextBackground'),
+                    margin: '0 0 0 0.5em',
+                },
+            }),
             commands.registerCommand('_lean.pasteTacticSuggestion', infoViewCommandHandler),
             languages.registerCodeActionsProvider(this.leanDocs, this),
         );
@@ -51,7 +64,7 @@ export class TacticSuggestions implements Disposable, CodeActionProvider {
         const curFileName = textEditor.document.fileName;
         const curPosition = textEditor.selection.active;
         // Find message closest to the cursor
-        const messages = this.server.messages
+        const messages = this.registry.serverFor(curFileName).messages
             .filter((m: Message) => m.file_name === curFileName &&
                 m.pos_line === curPosition.line + 1 &&
                 m.pos_col <= curPosition.character)
@@ -62,13 +75,9 @@ export class TacticSuggestions implements Disposable, CodeActionProvider {
         return messages[0];
     }
 
-    private async pasteIntoEditor(m: Message, textEditor: TextEditor, suggestion: string | null) {
-        if (suggestion === null) {
-            // Find first suggestion in message
-            const suggs = regexM.exec(m.text);
-            if (!suggs) return;
-            suggestion = suggs[1];
-        }
+    /** The edit replacing the tactic call of `m` with `suggestion`, and the end of the tactic call. */
+    private suggestionEdit(m: Message, document: TextDocument, suggestion: string):
+            { range: Range; suggestion: string; tacticEnd: Position } {
         // remove leading and trailing whitespace
         suggestion = suggestion.trim();
 
@@ -76,59 +85,25 @@ export class TacticSuggestions implements Disposable, CodeActionProvider {
         const startLine = m.pos_line - 1;
         let startCol = m.pos_col;
 
-        // Try to determine the end of the tactic call to replace.
-        // Heuristic: Find the next comma, semicolon, unmatched closing bracket,
-        // or newline that is not enclosed in brackets. To keep things simple,
-        // we use only one counter for all kinds of brackets.
-        let openBrackets = 0;
-        let endLine: number;
-        let endCol: number;
-        lineLoop:
-        for (endLine = startLine; endLine < textEditor.document.lineCount; endLine++) {
-            const chars = textEditor.document.lineAt(endLine).text.split('').entries();
-            // Iterate over every character of the line
-            for (const [col, char] of chars) {
-                // Only search from where the tactic starts
-                if (endLine > startLine || col > startCol) {
-                    if (openBrackets === 0 && [',',';'].includes(char)) {
-                        endCol = col;
-                        break lineLoop;
-                    }
-                    if (['(','[','{','⟨','⦃'].includes(char)) {
-                        openBrackets++;
-                    }
-                    if (['⦄','⟩','}',']',')'].includes(char)) {
-                        if (openBrackets === 0) {
-                            endCol = col;
-                            break lineLoop;
-                        } else {
-                            openBrackets--;
-                        }
-                    }
-                }
-            }
-            if (openBrackets === 0) {
-                endCol = textEditor.document.lineAt(endLine).range.end.character;
-                break lineLoop;
-            }
-        }
-
-        // Jump to the end of the tactic call
-        const lastPos = new Position(endLine, endCol)
-        textEditor.selection = new Selection(lastPos, lastPos)
+        // Find the end of the tactic call to replace: the next separator, unmatched closing
+        // bracket or `end`, or newline which is not enclosed in brackets.
+        const end = document.positionAt(
+            tacticEnd(document.getText(), document.offsetAt(new Position(startLine, startCol))));
+        const endLine = end.line;
+        let endCol = end.character;
 
         // Now check for `exact ` at the beginning of the suggestion
         // and `by ` before the tactic call (or `begin ` before, and `, end` after)
         // and if both occur, remove them.
         if (suggestion.startsWith('exact ')) {
-            const pre = textEditor.document.lineAt(startLine).text.substring(0, startCol);
+            const pre = document.lineAt(startLine).text.substring(0, startCol);
             // First check for `by `:
             if (pre.endsWith('by ')) {
                 startCol = startCol - 3;
                 suggestion = suggestion.substring(6);
             // Then check for `begin ... end`:
             } else if (pre.endsWith('begin ')) {
-                const post = textEditor.document.lineAt(endLine).text.substring(endCol);
+                const post = document.lineAt(endLine).text.substring(endCol);
                 const matches = post.match(/^,?\s*end/g);
                 if (matches) {
                     startCol = startCol - 6;
@@ -138,13 +113,28 @@ export class TacticSuggestions implements Disposable, CodeActionProvider {
             }
         }
 
-        // Replace tactic call by suggestion
         const range = new Range(
             new Position(startLine, startCol),
             new Position(endLine, endCol)
         )
+        return { range, suggestion, tacticEnd: end };
+    }
+
+    private async pasteIntoEditor(m: Message, textEditor: TextEditor, suggestion: string | null) {
+        if (suggestion === null) {
+            // Find first suggestion in message
+            const suggs = regexM.exec(m.text);
+            if (!suggs) return;
+            suggestion = suggs[1];
+        }
+        const edit = this.suggestionEdit(m, textEditor.document, suggestion);
+
+        // Jump to the end of the tactic call
+        textEditor.selection = new Selection(edit.tacticEnd, edit.tacticEnd)
+
+        // Replace tactic call by suggestion
         await textEditor.edit(editBuilder => {
-            editBuilder.replace(range, suggestion)
+            editBuilder.replace(edit.range, edit.suggestion)
         });
 
         // Strangely, the cursor moves during the edit, but the selection anchor
@@ -153,14 +143,106 @@ export class TacticSuggestions implements Disposable, CodeActionProvider {
             new Selection(textEditor.selection.active, textEditor.selection.active);
     }
 
+    /** Applies a suggestion of every "Try this" message in the selection, or in the whole file
+     * if nothing is selected, after asking which ones to apply.  The first suggestion of each
+     * message is picked by default, at most one suggestion of each message can be picked.
+     */
+    private async pasteAllIntoEditor(textEditor: TextEditor) {
+        const document = textEditor.document;
+        const selection = textEditor.selection;
+        const messages = this.registry.serverFor(document.fileName).messages
+            .filter((m) => m.file_name === document.fileName && regexM.test(m.text) &&
+                (selection.isEmpty || selection.contains(new Position(m.pos_line - 1, m.pos_col))))
+            .sort((a, b) => a.pos_line - b.pos_line || a.pos_col - b.pos_col);
+
+        // The ranges of a workspace edit refer to the document before the edit, so VS Code takes
+        // care of the text shifted by earlier replacements.  Overlapping replacements are not
+        // allowed though, so only the first of overlapping messages is kept.
+        const alternatives: { range: Range; suggestion: string }[][] = [];
+        let previousEnd: Position | undefined;
+        for (const m of messages) {
+            const edits = [...m.text.matchAll(regexGM)].map(([, s]) => this.suggestionEdit(m, document, s));
+            const start = edits.map((e) => e.range.start).reduce((a, b) => a.isBefore(b) ? a : b);
+            if (previousEnd && previousEnd.isAfter(start)) { continue; }
+            alternatives.push(edits);
+            previousEnd = edits.map((e) => e.range.end).reduce((a, b) => a.isAfter(b) ? a : b);
+        }
+        if (alternatives.length === 0) {
+            void window.showInformationMessage(
+                `No tactic suggestions ${selection.isEmpty ? 'in this file' : 'in the selection'}.`);
+            return;
+        }
+
+        interface SuggestionItem extends QuickPickItem {
+            edit: { range: Range; suggestion: string };
+            /** The index of the message in `alternatives`. */
+            message: number;
+        }
+        const quickPick = window.createQuickPick<SuggestionItem>();
+        quickPick.canSelectMany = true;
+        quickPick.items = alternatives.flatMap((edits, message) => edits.map((edit, i) => ({
+            label: edit.suggestion.replace(/\s+/g, ' '),
+            description: `line ${edit.range.start.line + 1}` +
+                (edits.length > 1 ? `, alternative ${i + 1} of ${edits.length}` : ''),
+            detail: `replaces ${document.getText(edit.range).replace(/\s+/g, ' ')}`,
+            edit,
+            message,
+        })));
+        quickPick.selectedItems = alternatives.map((edits, message) =>
+            quickPick.items.find((item) => item.message === message));
+        quickPick.placeholder = `Apply ${alternatives.length} tactic suggestions`;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        // Picking an alternative unpicks the other alternatives of the same message.
+        let selected = quickPick.selectedItems;
+        quickPick.onDidChangeSelection((items) => {
+            const added = items.filter((item) => !selected.includes(item));
+            selected = items.filter((item) => {
+                const winner = added.find((a) => a.message === item.message) ||
+                    items.find((i) => i.message === item.message);
+                return item === winner;
+            });
+            if (selected.length !== items.length) { quickPick.selectedItems = selected; }
+        });
+
+        const preview = (item?: SuggestionItem) => {
+            textEditor.setDecorations(this.previewDecoration, item ? [{
+                range: item.edit.range,
+                renderOptions: { after: { contentText: item.label } },
+            }] : []);
+            if (item) { textEditor.revealRange(item.edit.range, TextEditorRevealType.InCenterIfOutsideViewport); }
+        };
+
+        let picked: readonly SuggestionItem[] | undefined;
+        try {
+            picked = await new Promise<readonly SuggestionItem[] | undefined>((resolve) => {
+                quickPick.onDidChangeActive((items) => preview(items[0]));
+                quickPick.onDidAccept(() => resolve(quickPick.selectedItems));
+                quickPick.onDidHide(() => resolve(undefined));
+                quickPick.show();
+            });
+        } finally {
+            preview(undefined);
+            quickPick.dispose();
+        }
+        if (!picked || picked.length === 0) { return; }
+
+        const workspaceEdit = new WorkspaceEdit();
+        for (const { edit } of picked) {
+            workspaceEdit.replace(document.uri, edit.range, edit.suggestion);
+        }
+        await workspace.applyEdit(workspaceEdit);
+    }
+
     provideCodeActions(document: TextDocument, range: Range, context: CodeActionContext): Command[] {
         const cmds: Command[] = [];
         // filter diagnostic messages
         for (const diag of context.diagnostics) {
             if (diag.severity !== DiagnosticSeverity.Information) { continue; }
             // identify message
-            const msg = this.server.messages.find((m) => m.file_name === document.fileName &&
-                m.text === diag.message);
+            const msg = this.registry.serverFor(document.fileName).messages.find((m) =>
+                m.file_name === document.fileName && m.text === diag.message);
             // each "Try this" becomes a code action
             for (const [, tactic] of diag.message.matchAll(regexGM)) {
                 cmds.push({
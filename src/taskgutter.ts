@@ -1,13 +1,13 @@
 import { Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, ExtensionContext,
     languages, OverviewRulerLane, Range, TextEditorDecorationType, Uri, window, workspace } from 'vscode';
-import { Server } from './server';
+import { ServerRegistry } from './registry';
 import { ServerStatus } from './shared';
 
 export class LeanTaskGutter implements Disposable {
     private decoration: TextEditorDecorationType;
     private subscriptions: Disposable[] = [];
 
-    constructor(server: Server, context: ExtensionContext) {
+    constructor(registry: ServerRegistry, context: ExtensionContext) {
         this.decoration = window.createTextEditorDecorationType({
             overviewRulerLane: OverviewRulerLane.Left,
             overviewRulerColor: 'rgba(255, 165, 0, 0.5)',
@@ -20,8 +20,8 @@ export class LeanTaskGutter implements Disposable {
             gutterIconSize: 'contain',
         });
 
-        this.subscriptions.push(server.statusChanged.on(
-            (status) => this.updateDecos(status)));
+        this.subscriptions.push(registry.onDidChangeStatus(
+            () => this.updateDecos(registry.status)));
     }
 
     private updateDecos(status: ServerStatus) {
@@ -48,12 +48,12 @@ export class LeanTaskMessages implements Disposable {
     private collection: DiagnosticCollection;
     private subscriptions: Disposable[] = [];
 
-    constructor(server: Server) {
+    constructor(registry: ServerRegistry) {
         this.collection = languages.createDiagnosticCollection('lean-tasks');
-        this.subscriptions.push(server.statusChanged.on(
-            (status) => this.updateMsgs(status)));
+        this.subscriptions.push(registry.onDidChangeStatus(
+            () => this.updateMsgs(registry.status)));
         this.subscriptions.push(workspace.onDidChangeConfiguration(() =>
-            this.updateMsgs(server.statusChanged.currentValue)));
+            this.updateMsgs(registry.status)));
     }
 
     private updateMsgs(status: ServerStatus) {
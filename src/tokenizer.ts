@@ -0,0 +1,188 @@
+/**
+ * A small tokenizer for Lean 3 tactic blocks, which knows just enough about
+ * the syntax (comments, strings, brackets, `begin ... end`) to find where
+ * a tactic starts and ends.
+ */
+
+export type TokenKind = 'identifier' | 'symbol' | 'string' | 'char' | 'comment' |
+    'open' | 'close' | 'separator' | 'newline';
+
+export interface Token {
+    kind: TokenKind;
+    text: string;
+    /** Offset of the first character in the text. */
+    offset: number;
+    /** 0-based line and column of the first character. */
+    line: number;
+    column: number;
+}
+
+const openBrackets = ['{!', '(', '[', '{', '⟨', '⦃', '⁅', '⌊', '⌈'];
+const closeBrackets = ['!}', ')', ']', '}', '⟩', '⦄', '⁆', '⌋', '⌉'];
+/** Keywords which open a block closed by `end`. */
+const blockKeywords = ['begin', 'match'];
+
+/** Letters which cannot be used in identifiers, see `is_letter_like_unicode` in Lean 3. */
+const notLetters = ['λ', 'Π', 'Σ'];
+
+function isIdentifierStart(c: string): boolean {
+    return /^[\p{L}_]$/u.test(c) && !notLetters.includes(c);
+}
+
+function isIdentifierChar(c: string): boolean {
+    return /^[\p{L}\p{N}_'.!?₀-₉ₐ-ₜᵢ-ᵪ]$/u.test(c) && !notLetters.includes(c);
+}
+
+/** Yields the tokens of `text` from offset `start` on, skipping whitespace except for newlines. */
+export function* tokens(text: string, start = 0): IterableIterator<Token> {
+    let line = 0;
+    let lineStart = 0;
+    for (let nl = text.indexOf('\n'); nl !== -1 && nl < start; nl = text.indexOf('\n', nl + 1)) {
+        line++;
+        lineStart = nl + 1;
+    }
+
+    let i = start;
+    while (i < text.length) {
+        const begin = i;
+        const column = begin - lineStart;
+        const c = text[i];
+        const next = text[i + 1];
+        let kind: TokenKind;
+
+        if (c === '\n') {
+            kind = 'newline';
+            i++;
+        } else if (/\s/.test(c)) {
+            i++;
+            continue;
+        } else if (c === '-' && next === '-') {
+            kind = 'comment';
+            i = text.indexOf('\n', i);
+            if (i === -1) { i = text.length; }
+        } else if (c === '/' && next === '-') {
+            // Block comments can be nested.
+            kind = 'comment';
+            let depth = 0;
+            for (; i < text.length; i++) {
+                if (text[i] === '/' && text[i + 1] === '-') {
+                    depth++;
+                    i++;
+                } else if (text[i] === '-' && text[i + 1] === '/') {
+                    depth--;
+                    i++;
+                    if (depth === 0) { i++; break; }
+                }
+            }
+            i = Math.min(i, text.length);
+        } else if (c === '"') {
+            kind = 'string';
+            for (i++; i < text.length && text[i] !== '"'; i++) {
+                if (text[i] === '\\') { i++; }
+            }
+            i = Math.min(i + 1, text.length);
+        } else if (c === '\'' && /^'(\\.|[^\\'\n])'/.test(text.substr(i, 4))) {
+            kind = 'char';
+            i += text[i + 1] === '\\' ? 4 : 3;
+        } else if (openBrackets.includes(c + next) || closeBrackets.includes(c + next)) {
+            kind = openBrackets.includes(c + next) ? 'open' : 'close';
+            i += 2;
+        } else if (openBrackets.includes(c)) {
+            kind = 'open';
+            i++;
+        } else if (closeBrackets.includes(c)) {
+            kind = 'close';
+            i++;
+        } else if (c === ',' || c === ';') {
+            kind = 'separator';
+            i++;
+        } else if (isIdentifierStart(c)) {
+            kind = 'identifier';
+            for (i++; i < text.length && isIdentifierChar(text[i]) && text.substr(i, 2) !== '!}'; i++) { }
+        } else {
+            kind = 'symbol';
+            for (i++; i < text.length; i++) {
+                const d = text[i];
+                if (/\s/.test(d) || isIdentifierStart(d) || openBrackets.includes(d) || closeBrackets.includes(d) ||
+                    d === ',' || d === ';' || d === '"' || d === '\'' || text.substr(i, 2) === '--' ||
+                    text.substr(i, 2) === '/-' || text.substr(i, 2) === '{!' || text.substr(i, 2) === '!}') {
+                    break;
+                }
+            }
+        }
+
+        const token: Token = { kind, text: text.slice(begin, i), offset: begin, line, column };
+        yield token;
+        // Tokens spanning several lines are comments and strings.
+        for (let j = token.text.indexOf('\n'); j !== -1; j = token.text.indexOf('\n', j + 1)) {
+            line++;
+            lineStart = begin + j + 1;
+        }
+    }
+}
+
+/** All tokens of `text`. */
+export function tokenize(text: string): Token[] {
+    return [...tokens(text)];
+}
+
+/** Whether the token opens a block: a bracket or a keyword such as `begin`. */
+function isOpening(token: Token): boolean {
+    return token.kind === 'open' || (token.kind === 'identifier' && blockKeywords.includes(token.text));
+}
+
+function isClosing(token: Token): boolean {
+    return token.kind === 'close' || (token.kind === 'identifier' && token.text === 'end');
+}
+
+/**
+ * Finds the end (an offset in `text`) of the tactic starting at offset `start`.  The tactic ends
+ * before the next `,` or `;`, unmatched closing bracket or `end`, or newline which is not
+ * enclosed in brackets or a `begin ... end` block.  Trailing comments are not part of the tactic.
+ */
+export function tacticEnd(text: string, start: number): number {
+    let depth = 0;
+    let end = start;
+    for (const token of tokens(text, start)) {
+        if (depth === 0 && (token.kind === 'separator' || token.kind === 'newline' || isClosing(token))) {
+            break;
+        }
+        if (isOpening(token)) {
+            depth++;
+        } else if (isClosing(token)) {
+            depth--;
+        }
+        if (token.kind !== 'comment' && token.kind !== 'newline') {
+            end = token.offset + token.text.length;
+        }
+    }
+    return end;
+}
+
+/**
+ * Finds the start (an offset in `text`) of the tactic containing offset `pos`, i.e. the first token
+ * after the last `,` or `;` of the innermost `begin ... end` or `{ }` block containing `pos`.
+ * Returns `pos` if it is not in such a block.
+ */
+export function tacticStart(text: string, pos: number): number {
+    // The enclosing blocks, with the start of the current tactic in tactic blocks.
+    // Separators in other brackets, e.g. in `rw [a, b]`, do not end the tactic.
+    const blocks: { tactics: boolean; start?: number }[] = [{ tactics: false }];
+    for (const token of tokens(text)) {
+        if (token.offset >= pos) { break; }
+        const block = blocks[blocks.length - 1];
+        if (token.kind === 'comment' || token.kind === 'newline') { continue; }
+        if (block.tactics && block.start === undefined && !isClosing(token) && token.kind !== 'separator') {
+            block.start = token.offset;
+        }
+        if (isOpening(token)) {
+            blocks.push({ tactics: token.text === 'begin' || token.text === '{' });
+        } else if (isClosing(token)) {
+            if (blocks.length > 1) { blocks.pop(); }
+        } else if (token.kind === 'separator' && block.tactics) {
+            block.start = undefined;
+        }
+    }
+    const innermost = blocks.filter((b) => b.tactics).pop();
+    return innermost && innermost.start !== undefined ? innermost.start : pos;
+}
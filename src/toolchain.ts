@@ -0,0 +1,148 @@
+import { existsSync, readFileSync } from 'fs';
+import * as hasbin from 'hasbin';
+import { homedir } from 'os';
+import * as path from 'path';
+import * as username from 'username';
+import { extensions, workspace } from 'vscode';
+
+/** The Lean installation used for a project, shared by the server, batch mode and leanpkg tasks. */
+export interface Toolchain {
+    /** The elan toolchain requested by `lean_version` in `leanpkg.toml`, if it is installed. */
+    name?: string;
+    leanExecutable: string;
+    leanpkgExecutable: string;
+    /** Whether we have found a usable copy of Lean. */
+    hasLean: boolean;
+    /** The environment to run `leanExecutable` and `leanpkgExecutable` in. */
+    env: { [key: string]: string };
+}
+
+function exe(name: string): string {
+    return process.platform === 'win32' ? name + '.exe' : name;
+}
+
+function elanHome(): string {
+    return process.env.ELAN_HOME || path.join(homedir(), '.elan');
+}
+
+function expandExtensionPath(p: string): string {
+    const {extensionPath} = extensions.getExtension('jroesch.lean');
+    return p.replace('%extensionPath%', extensionPath + '/');
+}
+
+/** Reads `lean_version` from the `leanpkg.toml` in `root`. */
+export function leanVersionOfProject(root: string): string | undefined {
+    const leanpkgToml = root && path.join(root, 'leanpkg.toml');
+    if (!leanpkgToml || !existsSync(leanpkgToml)) { return undefined; }
+    const m = /^\s*lean_version\s*=\s*"([^"]*)"/m.exec(readFileSync(leanpkgToml).toString());
+    return m ? m[1] : undefined;
+}
+
+/** Finds the directory of an installed elan toolchain, e.g.
+ * `leanprover-community/lean:3.20.0` is installed in `toolchains/leanprover-community-lean-3.20.0`.
+ */
+function findElanToolchain(version: string): string | undefined {
+    const toolchains = path.join(elanHome(), 'toolchains');
+    const sanitize = (name: string) => name.replace(/[/:]/g, '-');
+    const candidates = [sanitize(version)];
+    if (!version.includes(':')) {
+        // bare versions such as `3.4.2` or `nightly`
+        candidates.push(sanitize(`leanprover-community/lean:${version}`), sanitize(`leanprover/lean:${version}`));
+    }
+    return candidates.map((c) => path.join(toolchains, c))
+        .find((dir) => existsSync(path.join(dir, 'bin', exe('lean'))));
+}
+
+/** Builds `LEAN_PATH` from the `leanpkg.path` file in `root`,
+ * or returns undefined if we cannot resolve all of its entries.
+ */
+function leanPathOfProject(root: string, toolchainDir?: string): string | undefined {
+    const leanpkgPath = root && path.join(root, 'leanpkg.path');
+    if (!leanpkgPath || !existsSync(leanpkgPath)) { return undefined; }
+    const entries: string[] = [];
+    for (const line of readFileSync(leanpkgPath).toString().split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed === '' || trimmed.startsWith('--')) { continue; }
+        if (trimmed === 'builtin_path') {
+            // The core library is only known if we know where the toolchain is.
+            const library = toolchainDir && path.join(toolchainDir, 'lib', 'lean', 'library');
+            if (!library || !existsSync(library)) { return undefined; }
+            entries.push(library);
+        } else if (trimmed.startsWith('path ')) {
+            entries.push(path.resolve(root, trimmed.substring(5).trim()));
+        }
+    }
+    return entries.join(path.delimiter);
+}
+
+/** The source directories of the project in `root`: the `path` entries of its `leanpkg.path`
+ * file, or else its `src` directory.  Unlike `LEAN_PATH`, this does not need the core library.
+ */
+export function projectSourceDirs(root: string): string[] {
+    const leanpkgPath = path.join(root, 'leanpkg.path');
+    if (!existsSync(leanpkgPath)) { return [path.join(root, 'src')]; }
+    return readFileSync(leanpkgPath).toString().split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.startsWith('path '))
+        .map((line) => path.resolve(root, line.substring(5).trim()));
+}
+
+function buildEnv(root: string, toolchainDir?: string): { [key: string]: string } {
+    const env: { [key: string]: string } = { ...process.env };
+    // An inherited LEAN_PATH would override leanpkg.path for the server, but not for leanpkg.
+    delete env.LEAN_PATH;
+    const leanPath = leanPathOfProject(root, toolchainDir);
+    if (leanPath) { env.LEAN_PATH = leanPath; }
+    if (process.platform === 'win32') {
+        // Note: on Windows the PATH variable must be set since
+        // the standard msys2 installation paths are not added to the
+        // Windows Path by msys2.
+        const additionalPaths = [
+            'C:\\msys64\\mingw64\\bin',
+            'C:\\msys64\\usr\\local\\bin',
+            'C:\\msys64\\usr\\bin',
+            'C:\\msys64\\bin',
+            'C:\\msys64\\opt\\bin',
+        ];
+        env.Path = env.Path + ';' + additionalPaths.join(';');
+    }
+    return env;
+}
+
+/** Determines the `lean` and `leanpkg` executables for the project in `root`
+ * and the environment to run them in.
+ */
+export function resolveToolchain(root: string): Toolchain {
+    const config = workspace.getConfiguration('lean');
+
+    let name: string;
+    let toolchainDir: string;
+    let leanExecutable = expandExtensionPath(config.get<string>('executablePath') || 'lean');
+    let hasLean = true;
+    if (leanExecutable === 'lean') {
+        const version = leanVersionOfProject(root);
+        toolchainDir = version && findElanToolchain(version);
+        if (toolchainDir) {
+            name = version;
+            leanExecutable = path.join(toolchainDir, 'bin', exe('lean'));
+        } else if (!hasbin.sync('lean')) {
+            // Let's try a little harder!
+            const elanLean = [path.join(elanHome(), 'bin', exe('lean'))];
+            if (process.platform === 'win32') {
+                elanLean.push(path.resolve('C:', 'msys64', 'home', username.sync(), '.elan', 'bin', 'lean'));
+            }
+            leanExecutable = elanLean.find((l) => existsSync(l)) || 'lean';
+            hasLean = leanExecutable !== 'lean';
+        }
+    } else if (path.isAbsolute(leanExecutable)) {
+        toolchainDir = path.dirname(path.dirname(leanExecutable));
+    }
+
+    let leanpkgExecutable = expandExtensionPath(config.get<string>('leanpkgPath') || 'leanpkg');
+    if (leanpkgExecutable === 'leanpkg' && path.isAbsolute(leanExecutable)) {
+        const leanpkg = path.join(path.dirname(leanExecutable), exe('leanpkg'));
+        if (existsSync(leanpkg)) { leanpkgExecutable = leanpkg; }
+    }
+
+    return { name, leanExecutable, leanpkgExecutable, hasLean, env: buildEnv(root, toolchainDir) };
+}
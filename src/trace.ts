@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { commands, Disposable, QuickPickItem, Range, Uri, window, workspace } from 'vscode';
+
+const TRACE_FILE = 'lean-protocol-trace.jsonl';
+/** The previous trace file, kept after rotation. */
+const ROTATED_TRACE_FILE = 'lean-protocol-trace.1.jsonl';
+/** Requests whose latency is interesting when looking for hangs. */
+const SLOW_REQUEST_COMMANDS = ['info', 'complete', 'search', 'widget_event'];
+
+/** One line of the trace file. */
+export type TraceEntry = {
+    type: 'request';
+    /** Start time of the extension session that wrote the entry. */
+    session: number;
+    /** Sequence number within the session, unlike `seq_num` it is not reset when a server restarts. */
+    seq: number;
+    /** Milliseconds since the epoch. */
+    time: number;
+    project: string;
+    /** The part of the extension which sent the request, e.g. `hover` or `infoview`. */
+    origin: string;
+    command: string;
+    /** The `seq_num` sent to Lean. */
+    seq_num?: number;
+    file_name?: string;
+    line?: number;
+    column?: number;
+    /** Length of the JSON request in characters. */
+    size: number;
+} | {
+    type: 'response';
+    session: number;
+    seq: number;
+    time: number;
+    duration: number;
+    response: 'ok' | 'error';
+    message?: string;
+    /** Length of the JSON response in characters. */
+    size: number;
+};
+
+type RequestEntry = Extract<TraceEntry, { type: 'request' }>;
+type ResponseEntry = Extract<TraceEntry, { type: 'response' }>;
+
+interface TracedRequest {
+    command: string;
+    seq_num?: number;
+    file_name?: string;
+    line?: number;
+    column?: number;
+}
+
+/**
+ * Records the requests sent to the Lean servers (including the ones proxied
+ * for the info view) and their responses to a JSONL file, if
+ * `lean.protocolTrace.enabled` is set.
+ */
+export class ProtocolTracer implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private enabled: boolean;
+    private session = Date.now();
+    private seq = 0;
+    /** Appends are chained so that the lines end up in order. */
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(private logPath: string) {
+        this.readConfig();
+        this.subscriptions.push(
+            workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('lean.protocolTrace')) { this.readConfig(); }
+            }),
+            commands.registerCommand('lean.protocolTrace.show', () => this.show()),
+        );
+    }
+
+    private readConfig() {
+        this.enabled = workspace.getConfiguration('lean').get('protocolTrace.enabled', false);
+    }
+
+    get traceFile(): string {
+        return path.join(this.logPath, TRACE_FILE);
+    }
+
+    private get rotatedTraceFile(): string {
+        return path.join(this.logPath, ROTATED_TRACE_FILE);
+    }
+
+    /** Records `request` and the outcome of `response`, returns `response` unchanged. */
+    trace<T>(project: string, origin: string, request: TracedRequest, response: Promise<T>): Promise<T> {
+        if (!this.enabled) { return response; }
+        const session = this.session;
+        const seq = this.seq++;
+        const start = Date.now();
+        this.write({
+            type: 'request', session, seq, time: start, project, origin,
+            command: request.command, seq_num: request.seq_num,
+            file_name: request.file_name, line: request.line, column: request.column,
+            size: JSON.stringify(request).length,
+        });
+        response.then((res) => {
+            const time = Date.now();
+            this.write({ type: 'response', session, seq, time, duration: time - start, response: 'ok',
+                size: JSON.stringify(res).length });
+        }, (err) => {
+            const time = Date.now();
+            const message = err instanceof Error ? err.message :
+                typeof err === 'string' ? err : JSON.stringify(err);
+            this.write({ type: 'response', session, seq, time, duration: time - start, response: 'error', message,
+                size: message.length });
+        });
+        return response;
+    }
+
+    private write(entry: TraceEntry) {
+        const line = JSON.stringify(entry) + '\n';
+        this.writing = this.writing.then(async () => {
+            await fs.promises.mkdir(this.logPath, { recursive: true });
+            const maxSize = workspace.getConfiguration('lean').get('protocolTrace.maxFileSize', 10) * 1024 * 1024;
+            try {
+                const { size } = await fs.promises.stat(this.traceFile);
+                if (size + line.length > maxSize) {
+                    await fs.promises.rename(this.traceFile, this.rotatedTraceFile);
+                }
+            } catch (e) {
+                // The trace file does not exist yet.
+            }
+            await fs.promises.appendFile(this.traceFile, line);
+        }).catch((e) => {
+            // Further writes would most likely fail as well, so stop tracing until the setting changes.
+            if (!this.enabled) { return; }
+            this.enabled = false;
+            void window.showWarningMessage(`Lean: Could not write the protocol trace to ${this.traceFile}, ` +
+                `tracing is disabled: ${(e as Error).message}`);
+        });
+    }
+
+    private async readEntries(): Promise<TraceEntry[]> {
+        await this.writing;
+        const entries: TraceEntry[] = [];
+        for (const fileName of [this.rotatedTraceFile, this.traceFile]) {
+            let contents: string;
+            try {
+                contents = (await fs.promises.readFile(fileName)).toString();
+            } catch (e) {
+                continue;
+            }
+            for (const line of contents.split('\n')) {
+                if (!line) { continue; }
+                try {
+                    entries.push(JSON.parse(line) as TraceEntry);
+                } catch (e) {
+                    // Ignore the partially written last line.
+                }
+            }
+        }
+        return entries;
+    }
+
+    /** Lists slow and unanswered requests, selecting one jumps to the position it was sent for. */
+    private async show() {
+        const threshold = workspace.getConfiguration('lean').get('protocolTrace.slowRequestThreshold', 1000);
+        const entries = await this.readEntries();
+        const key = (e: TraceEntry) => `${e.session}:${e.seq}`;
+        const responses = new Map<string, ResponseEntry>();
+        for (const e of entries) {
+            if (e.type === 'response') { responses.set(key(e), e); }
+        }
+        const requests = entries.filter((e): e is RequestEntry =>
+            e.type === 'request' && SLOW_REQUEST_COMMANDS.includes(e.command));
+
+        const now = Date.now();
+        const slow = requests
+            .map((request) => {
+                const response = responses.get(key(request));
+                return { request, response, duration: response ? response.duration : now - request.time };
+            })
+            // Requests of earlier sessions without a response were never answered,
+            // because the extension was stopped in the meantime.
+            .filter(({ request, response }) => response || request.session === this.session)
+            .filter(({ duration }) => duration >= threshold)
+            .sort((a, b) => b.duration - a.duration);
+
+        interface TraceItem extends QuickPickItem { request?: RequestEntry }
+        const items: TraceItem[] = slow.map(({ request, response, duration }) => ({
+            label: `${request.command}: ${duration} ms${response ? '' : ' (no response yet)'}`,
+            description: `from ${request.origin}`,
+            detail: [
+                request.file_name && `${path.basename(request.file_name)}` +
+                    (request.line !== undefined ? `:${request.line}:${request.column}` : ''),
+                `sent ${new Date(request.time).toLocaleTimeString()}`,
+                `request ${request.size} chars`,
+                response && `response ${response.size} chars`,
+                response && response.response === 'error' && `error: ${response.message}`,
+            ].filter((s) => s).join(', '),
+            request,
+        }));
+        items.push({ label: 'Open trace file', description: this.traceFile });
+
+        const enabledNote = this.enabled ? '' : ' (tracing is disabled, see lean.protocolTrace.enabled)';
+        const item = await window.showQuickPick(items, {
+            placeHolder: `${slow.length} requests took longer than ${threshold} ms${enabledNote}`,
+            matchOnDescription: true,
+            matchOnDetail: true,
+        });
+        if (!item) { return; }
+        if (!item.request) {
+            if (fs.existsSync(this.traceFile)) {
+                await window.showTextDocument(Uri.file(this.traceFile));
+            } else {
+                void window.showInformationMessage('The protocol trace is empty.');
+            }
+        } else if (item.request.file_name) {
+            const line = Math.max((item.request.line || 1) - 1, 0);
+            const column = item.request.column || 0;
+            await window.showTextDocument(Uri.file(item.request.file_name), {
+                selection: new Range(line, column, line, column),
+            });
+        }
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
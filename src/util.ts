@@ -1,4 +1,4 @@
-import { Event, EventEmitter, Position, TextDocument } from 'vscode';
+import { Event, EventEmitter, ExtensionContext, Position, TextDocument } from 'vscode';
 
 export function isInputCompletion(document: TextDocument, position: Position): boolean {
     const text = document.getText();
@@ -34,3 +34,11 @@ export class LowPassFilter<T> {
         }
     }
 }
+
+/** The icon `media/<name>-{light,dark}.svg` of the extension, e.g. for tree items. */
+export function mediaIcon(context: ExtensionContext, name: string): { light: string; dark: string } {
+    return {
+        light: context.asAbsolutePath(`media/${name}-light.svg`),
+        dark: context.asAbsolutePath(`media/${name}-dark.svg`),
+    };
+}
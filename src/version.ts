@@ -0,0 +1,47 @@
+import * as child from 'child_process';
+import semver = require('semver');
+import { LeanCapabilities } from './shared';
+import { Toolchain } from './toolchain';
+
+/** The first Lean version supporting each capability. */
+const minimumVersions: {[K in keyof LeanCapabilities]: string} = {
+    holeCommands: '3.3.0',
+    widgets: '3.15.0',
+    widgetEffects: '3.17.0',
+    concurrentInfoRequests: '3.17.0',
+};
+
+/** What we assume while the version is unknown, this matches what older versions of the extension did. */
+const unknownVersionCapabilities: LeanCapabilities = {
+    holeCommands: true,
+    widgets: true,
+    widgetEffects: true,
+    concurrentInfoRequests: false,
+};
+
+/** The version `x.y.z` in `lean --version` output or a toolchain name, without pre-release tags, e.g. `3.20.0` for
+ * `leanprover-community/lean:3.20.0` or `Lean (version 3.21.0-nightly, ...)`.  Toolchains such as `nightly` have none.
+ */
+export function parseLeanVersion(text: string): string | undefined {
+    const m = /(?:^|[^\d.])(\d+)\.(\d+)\.(\d+)/.exec(text);
+    return m ? `${m[1]}.${m[2]}.${m[3]}` : undefined;
+}
+
+/** The capabilities of Lean `version`, or those of `unknownVersionCapabilities` if it cannot be parsed. */
+export function capabilitiesOfVersion(version: string | undefined): LeanCapabilities {
+    const capabilities = { ...unknownVersionCapabilities };
+    const parsed = version && parseLeanVersion(version);
+    if (parsed) {
+        for (const key of Object.keys(minimumVersions) as (keyof LeanCapabilities)[]) {
+            capabilities[key] = semver.gte(parsed, minimumVersions[key]);
+        }
+    }
+    return capabilities;
+}
+
+/** Runs `lean --version`, e.g. `Lean (version 3.20.0, commit 0ff1cf2, Release)` gives `3.20.0`. */
+export function detectLeanVersion(toolchain: Toolchain): Promise<string | undefined> {
+    return new Promise((resolve) =>
+        child.execFile(toolchain.leanExecutable, ['--version'], { env: toolchain.env, timeout: 10000 },
+            (err, stdout) => resolve(err ? undefined : parseLeanVersion(stdout))));
+}
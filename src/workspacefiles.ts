@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import { Disposable, DocumentSelector, EventEmitter, languages, Uri, workspace } from 'vscode';
+import { findLeanFiles, isDependency } from './registry';
+
+/**
+ * The Lean files of the workspace and their contents, for views which scan all files.
+ * The workspace is only searched for Lean files the first time they are requested.
+ */
+export class WorkspaceFiles implements Disposable {
+    private subscriptions: Disposable[] = [];
+    private fileNames?: Promise<Set<string>>;
+    private diskContents = new Map<string, Promise<string | undefined>>();
+    /** Counts the changes on disk and the openings of each file, see `version`. */
+    private diskVersions = new Map<string, number>();
+    private openCounts = new Map<string, number>();
+
+    private changedEmitter = new EventEmitter<string>();
+    /** Fires with the file name when a Lean file has been created, changed or deleted on disk. */
+    onDidChangeFile = this.changedEmitter.event;
+
+    constructor(private leanDocs: DocumentSelector) {
+        const watcher = workspace.createFileSystemWatcher('**/*.lean');
+        this.subscriptions.push(
+            this.changedEmitter, watcher,
+            watcher.onDidCreate((uri) => this.fileChanged(uri, true)),
+            watcher.onDidChange((uri) => this.fileChanged(uri, true)),
+            watcher.onDidDelete((uri) => this.fileChanged(uri, false)),
+            // Versions of documents start over when they are opened again.
+            workspace.onDidOpenTextDocument((doc) =>
+                this.openCounts.set(doc.fileName, (this.openCounts.get(doc.fileName) || 0) + 1)),
+        );
+    }
+
+    private fileChanged(uri: Uri, exists: boolean) {
+        this.diskContents.delete(uri.fsPath);
+        this.diskVersions.set(uri.fsPath, (this.diskVersions.get(uri.fsPath) || 0) + 1);
+        if (!this.fileNames || isDependency(uri.fsPath)) { return; }
+        void this.fileNames.then((fileNames) => {
+            if (exists) { fileNames.add(uri.fsPath); } else { fileNames.delete(uri.fsPath); }
+            this.changedEmitter.fire(uri.fsPath);
+        });
+    }
+
+    /** The Lean files of the workspace without the dependencies of projects, and the open Lean files. */
+    async leanFiles(): Promise<string[]> {
+        if (!this.fileNames) {
+            this.fileNames = Promise.resolve(findLeanFiles())
+                .then((uris) => new Set(uris.map((u) => u.fsPath)));
+        }
+        const openFiles = workspace.textDocuments
+            .filter((doc) => languages.match(this.leanDocs, doc) && doc.uri.scheme === 'file')
+            .map((doc) => doc.fileName);
+        return [...new Set([...await this.fileNames, ...openFiles])];
+    }
+
+    /** The contents of the open document, or else of the file on disk. */
+    readText(fileName: string): Promise<string | undefined> {
+        const doc = workspace.textDocuments.find((d) => d.fileName === fileName);
+        if (doc) { return Promise.resolve(doc.getText()); }
+        let contents = this.diskContents.get(fileName);
+        if (!contents) {
+            contents = fs.promises.readFile(fileName, 'utf8').catch((): string => undefined);
+            this.diskContents.set(fileName, contents);
+        }
+        return contents;
+    }
+
+    /** Identifies the contents of `fileName`: changes whenever `readText` may return something else. */
+    version(fileName: string): string {
+        const doc = workspace.textDocuments.find((d) => d.fileName === fileName);
+        return doc ? `open ${this.openCounts.get(fileName) || 0}.${doc.version}` :
+            `disk ${this.diskVersions.get(fileName) || 0}`;
+    }
+
+    dispose(): void {
+        for (const s of this.subscriptions) { s.dispose(); }
+    }
+}
+
+/** Caches a result computed from the contents of each file, e.g. the result of scanning it. */
+export class FileCache<T> {
+    private entries = new Map<string, { key: string; value: Promise<T> }>();
+
+    constructor(private files: WorkspaceFiles) {}
+
+    /** The result for `fileName`, computed again only if the file or `extraKey` have changed. */
+    get(fileName: string, compute: (text: string | undefined) => T | Promise<T>, extraKey = ''): Promise<T> {
+        const key = `${this.files.version(fileName)}|${extraKey}`;
+        const entry = this.entries.get(fileName);
+        if (entry && entry.key === key) { return entry.value; }
+        const value = this.files.readText(fileName).then(compute);
+        this.entries.set(fileName, { key, value });
+        return value;
+    }
+}
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { AbbreviationConverter, AbbreviationEngine, findConflicts, splitAtCursor } from '../src/abbreviations';
+
+const builtins = { le: '≤', lam: 'λ', la: 'λ', alpha: 'α', to: '→' };
+const symbols = { a: 'α', alpha: 'α', b: 'β', r: '→', to: '→', n: '¬', not: '¬', ne: '≠', '<>': '⟨$CURSOR⟩' };
+
+suite('Abbreviations', () => {
+
+    test('converts abbreviations after a space or once they are complete', () => {
+        const engine = new AbbreviationEngine(builtins);
+        assert.deepEqual(engine.convertAt('a \\le b', 6), { text: 'a ≤ b', cursor: 4 });
+        assert.deepEqual(engine.convertAt('\\la', 3), { text: '\\la', cursor: 3 });
+        assert.deepEqual(engine.convertAt('\\lam', 4), { text: 'λ', cursor: 1 });
+        assert.deepEqual(engine.convertAt('\\to\\', 4), { text: '→\\', cursor: 2 });
+    });
+
+    test('puts the cursor between the brackets of paired translations', () => {
+        const engine = new AbbreviationEngine({ ...builtins, '<>': '⟨$CURSOR⟩' });
+        assert.deepEqual(engine.convertAt('f \\<> x', 5), { text: 'f ⟨⟩ x', cursor: 3 });
+        assert.deepEqual(splitAtCursor('⟨$CURSOR⟩'), ['⟨', '⟩']);
+        assert.deepEqual(splitAtCursor('→'), ['→', '']);
+    });
+
+    test('reports shadowed built-ins', () => {
+        const conflicts = findConflicts(builtins, [{ name: 'a.json', translations: { le: '⩽', to: '→' } }]);
+        assert.deepEqual(conflicts.map((c) => [c.kind, c.abbrev, c.source]), [['shadowed', 'le', 'a.json']]);
+    });
+
+    test('later sources shadow earlier ones', () => {
+        const conflicts = findConflicts(builtins, [
+            { name: 'a.json', translations: { ctx: 'Γ' } },
+            { name: 'settings', translations: { ctx: 'Δ' } },
+        ]);
+        assert.deepEqual(conflicts.map((c) => [c.kind, c.source]), [['shadowed', 'settings']]);
+        assert.ok(conflicts[0].message.includes('a.json'));
+    });
+
+    test('reports abbreviations hiding their shortest extension', () => {
+        const conflicts = findConflicts(builtins, [{ name: 'a.json', translations: { al: 'ℵ', alph: 'α' } }]);
+        assert.deepEqual(conflicts.filter((c) => c.kind === 'unreachable').map((c) => c.abbrev), ['al']);
+    });
+
+    test('reports abbreviations which cannot be typed', () => {
+        const conflicts = findConflicts(builtins, [{ name: 'a.json', translations: { 'a b': 'x', 'a\\b': 'y' } }]);
+        assert.deepEqual(conflicts.map((c) => c.kind), ['unreachable', 'unreachable']);
+    });
+
+    test('reports duplicate symbols', () => {
+        const conflicts = findConflicts(builtins, [{ name: 'a.json', translations: { fun: 'λ' } }]);
+        assert.deepEqual(conflicts.map((c) => c.kind), ['duplicate']);
+        assert.ok(conflicts[0].message.includes('`\\la`, `\\lam`'));
+    });
+
+    test('converts symbols to their shortest abbreviations', () => {
+        const converter = new AbbreviationConverter(symbols);
+        assert.equal(converter.toAbbreviations('α → β'), '\\a \\r \\b');
+        assert.equal(converter.toAbbreviations('α→β'), '\\a\\r\\b');
+        assert.equal(converter.toAbbreviations('⟨a, b⟩'), '⟨a, b⟩');
+    });
+
+    test('separates abbreviations only if the following text would continue them', () => {
+        assert.equal(new AbbreviationConverter(symbols).toAbbreviations('¬e'), '\\note');
+        assert.equal(new AbbreviationConverter({ n: '¬', ne: '≠' }).toAbbreviations('¬e'), '\\n e');
+        assert.equal(new AbbreviationConverter(symbols).toAbbreviations('¬x'), '\\nx');
+    });
+
+    test('converts abbreviations to symbols, the longest first', () => {
+        const converter = new AbbreviationConverter(symbols);
+        assert.equal(converter.fromAbbreviations('\\a \\to \\b'), 'α → β');
+        assert.equal(converter.fromAbbreviations('\\note \\ne \\<> \\x'), '¬e ≠ ⟨⟩ \\x');
+        assert.equal(new AbbreviationConverter(symbols, ';').fromAbbreviations(';a;r;b'), 'α→β');
+    });
+
+    test('keeps comments and strings of Lean code', () => {
+        const converter = new AbbreviationConverter(symbols);
+        assert.equal(converter.fromAbbreviations('"a\\nb" \\n'), '"a¬b" ¬');
+        assert.equal(converter.fromAbbreviations('"a\\nb" \\n', true), '"a\\nb" ¬');
+        assert.equal(converter.fromAbbreviations('\\a -- \\b\n/- \\r -/ \\n \'\\n\'', true),
+            'α -- \\b\n/- \\r -/ ¬ \'\\n\'');
+        assert.equal(converter.toAbbreviations('α -- β\n"→" ¬', true), '\\a -- β\n"→" \\n');
+    });
+});
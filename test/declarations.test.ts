@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { declarationName, declarationRange, declarationStart, DocumentLines } from '../src/declarations';
+
+function lines(text: string): DocumentLines {
+    const ls = text.split('\n');
+    return { lineCount: ls.length, lineAt: (line) => ({ text: ls[line] }) };
+}
+
+/** The 1-based lines of the declaration containing the line marked with `|`, which is removed. */
+function rangeAt(text: string): [number, number] {
+    const line = text.slice(0, text.indexOf('|')).split('\n').length - 1;
+    const range = declarationRange(lines(text.replace('|', '')), line);
+    return [range.begin_line, range.end_line];
+}
+
+const file = [
+    'namespace foo',             // 1
+    'section bar',               // 2
+    '',                          // 3
+    '/-- The first lemma. -/',   // 4
+    '@[simp] lemma a : p :=',    // 5
+    'begin',                     // 6
+    '  simp',                    // 7
+    'end',                       // 8
+    '',                          // 9
+    '/-- The second',            // 10
+    '  definition. -/',          // 11
+    '@[reducible]',              // 12
+    'private def b := 1',        // 13
+    '',                          // 14
+    'end bar',                   // 15
+    'end foo',                   // 16
+].join('\n');
+
+/** `file` with the marker at the start of the 1-based `line`. */
+function fileAt(line: number): string {
+    const ls = file.split('\n');
+    ls[line - 1] = '|' + ls[line - 1];
+    return ls.join('\n');
+}
+
+suite('Declarations', () => {
+
+    test('declaration starts and names', () => {
+        assert.ok(declarationStart.test('@[simp] lemma foo : p'));
+        assert.ok(declarationStart.test('@[simp, norm_cast] private noncomputable def foo := 1'));
+        assert.ok(declarationStart.test('protected theorem foo.bar : p'));
+        assert.ok(!declarationStart.test('@[simp]'));
+        assert.ok(!declarationStart.test('  lemma foo : p'));
+        assert.equal(declarationName('@[simp] lemma foo.bar (n : ℕ) : p'), 'foo.bar');
+        assert.equal(declarationName('private def b := 1'), 'b');
+        assert.equal(declarationName('instance : has_add α'), 'instance');
+        assert.equal(declarationName('example : p'), 'example');
+    });
+
+    test('declarations include their attributes and doc comments', () => {
+        assert.deepEqual(rangeAt(fileAt(5)), [4, 9]);
+        assert.deepEqual(rangeAt(fileAt(7)), [4, 9]);
+        assert.deepEqual(rangeAt(fileAt(13)), [10, 14]);
+    });
+
+    test('the cursor may be on the attributes or doc comment', () => {
+        assert.deepEqual(rangeAt(fileAt(4)), [4, 9]);
+        assert.deepEqual(rangeAt(fileAt(11)), [10, 14]);
+        assert.deepEqual(rangeAt(fileAt(12)), [10, 14]);
+    });
+
+    test('declarations end before the end of namespaces and sections', () => {
+        assert.deepEqual(rangeAt(fileAt(14)), [10, 14]);
+        assert.deepEqual(rangeAt('namespace a\nsection\nlemma x : p :=\n|by simp\nend\nend a'), [3, 5]);
+    });
+
+    test('ordinary comments are not part of the declaration', () => {
+        assert.deepEqual(rangeAt('/- Not a doc comment\n  at all -/\n|lemma x : p := trivial'), [3, 3]);
+        assert.deepEqual(rangeAt('/-! Module doc -/\n|lemma x : p := trivial'), [2, 2]);
+    });
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { join } from 'path';
+import { dependencyOrder, importsOf } from '../src/imports';
+
+/** Orders the files of a project in `/p`, given by their path relative to it and their text. */
+function order(files: {[fileName: string]: string}): string[] {
+    const texts = new Map(Object.keys(files).map((f): [string, string] => [join('/p', f), files[f]]));
+    return dependencyOrder([...texts.keys()], (fileName) => texts.get(fileName))
+        .map((fileName) => fileName.slice('/p/'.length));
+}
+
+suite('Imports', () => {
+
+    test('imports after comments', () => {
+        assert.deepEqual(importsOf('/- Copyright\n  import x -/\n-- import y\nimport a.b c\nimport d'), ['a.b', 'c', 'd']);
+        assert.deepEqual(importsOf('prelude\nimport init.core'), ['init.core']);
+    });
+
+    test('imports end at the first command', () => {
+        assert.deepEqual(importsOf('import a\n\nopen nat\n\ntheorem foo : 1 = 1 := rfl\nimport b'), ['a']);
+        assert.deepEqual(importsOf('import a\nnoncomputable theory'), ['a']);
+        assert.deepEqual(importsOf('def x := 1'), []);
+    });
+
+    test('relative imports', () => {
+        assert.deepEqual(importsOf('import .foo ..bar.baz'), ['.foo', '..bar.baz']);
+        assert.deepEqual(order({
+            'src/a/b.lean': 'import ..c .d',
+            'src/c.lean': '',
+            'src/a/d.lean': 'import ..c',
+        }), ['src/c.lean', 'src/a/d.lean', 'src/a/b.lean']);
+    });
+
+    test('files come after the files they import', () => {
+        assert.deepEqual(order({
+            'src/top.lean': 'import data.x data.y',
+            'src/data/x.lean': 'import data.y',
+            'src/data/y.lean': '-- import data.x\n',
+        }), ['src/data/y.lean', 'src/data/x.lean', 'src/top.lean']);
+    });
+
+    test('import cycles', () => {
+        assert.deepEqual(order({
+            'src/a.lean': 'import b',
+            'src/b.lean': 'import a',
+            'src/c.lean': 'import a',
+        }), ['src/b.lean', 'src/a.lean', 'src/c.lean']);
+    });
+});
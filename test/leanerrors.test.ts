@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { parseLeanError } from '../src/leanerrors';
+
+suite('Lean errors', () => {
+
+    test('unknown identifiers', () => {
+        assert.deepEqual(parseLeanError('unknown identifier \'nat.succ_le_iff\''),
+            { code: 'unknown-identifier', names: ['nat.succ_le_iff'] });
+        assert.deepEqual(parseLeanError('unknown constant \'foo.bar\''), { code: 'unknown-constant', names: ['foo.bar'] });
+    });
+
+    test('unknown namespaces and locales', () => {
+        assert.equal(parseLeanError('invalid namespace name \'finset.foo\'').code, 'unknown-namespace');
+        assert.equal(parseLeanError('unknown namespace \'foo\'').code, 'unknown-namespace');
+        assert.equal(parseLeanError('locale big_operatorz does not exist').code, 'unknown-locale');
+    });
+
+    test('sorry', () => {
+        assert.deepEqual(parseLeanError('declaration uses \'sorry\''), { code: 'sorry', names: [] });
+    });
+
+    test('missing instances name the class', () => {
+        assert.deepEqual(parseLeanError('failed to synthesize type class instance for\nα : Type,\n' +
+            '_inst_1 : has_mul α\n⊢ has_add α'), { code: 'instance-not-found', names: ['has_add'] });
+    });
+
+    test('other messages', () => {
+        assert.equal(parseLeanError('type mismatch at application\n  f a\nterm\n  a\nhas type\n  ℕ').code,
+            'type-mismatch');
+        assert.equal(parseLeanError('unsolved goals\n⊢ p').code, 'unsolved-goals');
+        assert.equal(parseLeanError('invalid expression').code, 'parse-error');
+        assert.equal(parseLeanError('try this: simp only [foo]'), undefined);
+    });
+});
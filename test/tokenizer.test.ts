@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { tacticEnd, tacticStart, tokenize } from '../src/tokenizer';
+
+/** The text from `marker` (which is removed) to the end of the tactic. */
+function tacticAt(text: string, marker = '|'): string {
+    const start = text.indexOf(marker);
+    text = text.replace(marker, '');
+    return text.slice(start, tacticEnd(text, start));
+}
+
+/** The text from the start of the tactic containing `marker` (which is removed) to the marker. */
+function tacticBefore(text: string, marker = '|'): string {
+    const pos = text.indexOf(marker);
+    text = text.replace(marker, '');
+    return text.slice(tacticStart(text, pos), pos);
+}
+
+suite('Tokenizer', () => {
+
+    test('comments and strings', () => {
+        const tokens = tokenize('simp, -- a, b\n/- c, /- d -/ e -/ "f, \\" g" \'h\'');
+        assert.deepEqual(tokens.map((t) => t.kind),
+            ['identifier', 'separator', 'comment', 'newline', 'comment', 'string', 'char']);
+        assert.equal(tokens[4].text, '/- c, /- d -/ e -/');
+        assert.equal(tokens[5].text, '"f, \\" g"');
+    });
+
+    test('identifiers with primes and holes', () => {
+        const tokens = tokenize('exact {! h\'.1 !}');
+        assert.deepEqual(tokens.map((t) => t.text), ['exact', '{!', 'h\'.1', '!}']);
+        assert.deepEqual(tokens.map((t) => t.kind), ['identifier', 'open', 'identifier', 'close']);
+    });
+
+    test('line and column', () => {
+        const tokens = tokenize('begin\n  /- a\n b -/ simp,\nend');
+        const simp = tokens.find((t) => t.text === 'simp');
+        assert.equal(simp.line, 2);
+        assert.equal(simp.column, 6);
+        const end = tokens.find((t) => t.text === 'end');
+        assert.equal(end.line, 3);
+        assert.equal(end.column, 0);
+    });
+
+    test('tactic ends at separators', () => {
+        assert.equal(tacticAt('begin |squeeze_simp, refl end'), 'squeeze_simp');
+        assert.equal(tacticAt('begin |simp; refl end'), 'simp');
+        assert.equal(tacticAt('begin |simp at h ⊢\nend'), 'simp at h ⊢');
+    });
+
+    test('tactic ends at unmatched brackets and end', () => {
+        assert.equal(tacticAt('{ |simp }'), 'simp');
+        assert.equal(tacticAt('begin |simp end'), 'simp');
+        assert.equal(tacticAt('⟨by |simp, rfl⟩'), 'simp');
+    });
+
+    test('separators in brackets and strings do not end the tactic', () => {
+        assert.equal(tacticAt('|simp [a, b] at h, refl'), 'simp [a, b] at h');
+        assert.equal(tacticAt('|rw [a,\n  b], refl'), 'rw [a,\n  b]');
+        assert.equal(tacticAt('|trace "a, b", refl'), 'trace "a, b"');
+        assert.equal(tacticAt('|norm_num [\'a\', \',\'], refl'), 'norm_num [\'a\', \',\']');
+    });
+
+    test('trailing comments are not part of the tactic', () => {
+        assert.equal(tacticAt('|simp -- a, b\n, refl'), 'simp');
+        assert.equal(tacticAt('|simp /- a, b -/, refl'), 'simp');
+    });
+
+    test('nested begin ... end blocks', () => {
+        assert.equal(tacticAt('|have : p := begin\n  simp,\nend, exact this'), 'have : p := begin\n  simp,\nend');
+        assert.equal(tacticAt('|refine (match x with | a := b end), refl'), 'refine (match x with | a := b end)');
+    });
+
+    test('tactic start', () => {
+        assert.equal(tacticBefore('begin\n  simp,\n  ex|act h\nend'), 'ex');
+        assert.equal(tacticBefore('begin\n  rw [a,\n    b|]\nend'), 'rw [a,\n    b');
+        assert.equal(tacticBefore('begin\n  { simp, ref|l }\nend'), 'ref');
+        assert.equal(tacticBefore('begin\n  { simp }, -- a, b\n  ref|l\nend'), 'ref');
+        assert.equal(tacticBefore('begin\n  split, { simp },\n  ex|act h\nend'), 'ex');
+        assert.equal(tacticBefore('lemma foo :\n  p|'), '');
+    });
+});
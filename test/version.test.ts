@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { capabilitiesOfVersion, parseLeanVersion } from '../src/version';
+
+suite('Lean versions', () => {
+
+    test('parses lean --version and toolchain names', () => {
+        assert.equal(parseLeanVersion('Lean (version 3.20.0, commit 0ff1cf2, Release)'), '3.20.0');
+        assert.equal(parseLeanVersion('leanprover-community/lean:3.16.5'), '3.16.5');
+        assert.equal(parseLeanVersion('Lean (version 3.4.3, nightly-2020-01-17, commit 2b2fd2b, Release)'), '3.4.3');
+        assert.equal(parseLeanVersion('Lean (version 3.21.0-nightly, Release)'), '3.21.0');
+    });
+
+    test('versions which cannot be parsed', () => {
+        assert.equal(parseLeanVersion('leanprover/lean:nightly'), undefined);
+        assert.equal(parseLeanVersion('nightly-2020-01-17'), undefined);
+        assert.deepEqual(capabilitiesOfVersion('leanprover/lean:nightly'), capabilitiesOfVersion(undefined));
+        assert.deepEqual(capabilitiesOfVersion('garbage'), capabilitiesOfVersion(undefined));
+    });
+
+    test('unknown versions get the capabilities of older extensions', () => {
+        assert.deepEqual(capabilitiesOfVersion(undefined),
+            { holeCommands: true, widgets: true, widgetEffects: true, concurrentInfoRequests: false });
+    });
+
+    test('capabilities depend on the minimum versions', () => {
+        assert.deepEqual(capabilitiesOfVersion('3.2.0'),
+            { holeCommands: false, widgets: false, widgetEffects: false, concurrentInfoRequests: false });
+        assert.deepEqual(capabilitiesOfVersion('leanprover-community/lean:3.15.0'),
+            { holeCommands: true, widgets: true, widgetEffects: false, concurrentInfoRequests: false });
+        assert.deepEqual(capabilitiesOfVersion('3.17.0-rc1'),
+            { holeCommands: true, widgets: true, widgetEffects: true, concurrentInfoRequests: true });
+    });
+});